@@ -1,6 +1,9 @@
 import { NetworkClient } from '../network/NetworkClient';
+import { SnapshotBuffer } from '../network/SnapshotBuffer';
 import { SimpleRenderer } from '../rendering/SimpleRenderer';
 import { InputManager } from './InputManager';
+import { MovementPredictor } from './MovementPredictor';
+import { ProjectileSimulator } from './ProjectileSimulator';
 import type {
   WorldSnapshot,
   CharacterListData,
@@ -12,14 +15,14 @@ import type {
   ChatEvent,
   PlayerSnapshot,
   Vec2,
-  TileType,
   PlayerDeathStats,
   VaultOpenEvent,
   VaultUpdateEvent,
 } from '@rotmg/shared';
 import { ITEMS, WEAPONS, ARMORS, ABILITIES, RINGS, getExpForLevel, MAX_LEVEL, VAULT_CHEST_INTERACT_RANGE } from '@rotmg/shared';
+import { TileType, applyMapChunk, INPUT_INTERVAL_MS } from '@rotmg/shared';
 
-type GameState = 'connecting' | 'login' | 'character_select' | 'playing' | 'dead';
+type GameState = 'connecting' | 'login' | 'character_select' | 'playing' | 'dead' | 'update_required';
 
 export class Game {
   private network: NetworkClient;
@@ -29,12 +32,23 @@ export class Game {
   private state: GameState = 'connecting';
   private playerId: string | null = null;
   private lastSnapshot: WorldSnapshot | null = null;
+  private snapshotBuffer: SnapshotBuffer = new SnapshotBuffer();
+  private movement: MovementPredictor = new MovementPredictor();
+  private projectiles: ProjectileSimulator = new ProjectileSimulator();
+  // Tiles of the current instance, shared with the renderer and predictor and
+  // filled in as map chunks arrive
+  private instanceId: string | null = null;
+  private mapWidth: number = 0;
+  private mapTiles: number[] = [];
+  // Lets a dropped connection pick the character back up (server holds it briefly)
+  private resumeToken: string | null = null;
   private characterList: CharacterListData | null = null;
 
   // UI Elements
   private gameContainer: HTMLElement;
   private loginScreen: HTMLElement;
   private characterScreen: HTMLElement;
+  private updateScreen: HTMLElement;
   private statsPanel: HTMLElement;
   private chatMessages: HTMLElement;
   private chatInput: HTMLInputElement;
@@ -73,6 +87,7 @@ export class Game {
     // Get UI elements
     this.loginScreen = document.getElementById('login-screen')!;
     this.characterScreen = document.getElementById('character-screen')!;
+    this.updateScreen = document.getElementById('update-screen')!;
     this.statsPanel = document.getElementById('stats-panel')!;
     this.chatMessages = document.getElementById('chat-messages')!;
     this.chatInput = document.getElementById('chat-input') as HTMLInputElement;
@@ -112,25 +127,42 @@ export class Game {
     this.network.setHandlers({
       onConnect: () => {
         console.log('Connected to server');
-        // Try auto-login with saved session token
-        const savedToken = localStorage.getItem('rotmg_session_token');
-        if (savedToken) {
-          console.log('Attempting auto-login with saved session');
-          this.network.authenticateToken(savedToken);
-          // Don't show login screen yet, wait for auth result
-        } else {
-          // Pre-fill username if saved (password is NEVER stored for security)
-          const savedUsername = localStorage.getItem('rotmg_username');
-          if (savedUsername) {
-            (document.getElementById('username-input') as HTMLInputElement).value = savedUsername;
-          }
-          this.setState('login');
+        // Reconnecting mid-game: try to pick the character back up first
+        if (this.resumeToken) {
+          console.log('Attempting to resume previous session');
+          this.network.resume(this.resumeToken);
+          return;
+        }
+        this.beginLogin();
+      },
+
+      onResumeToken: (token) => {
+        this.resumeToken = token;
+      },
+
+      onResumeResult: (success) => {
+        // On success the server follows up with instanceChange
+        if (!success) {
+          console.log('Session could not be resumed');
+          this.resumeToken = null;
+          this.beginLogin();
         }
       },
 
       onDisconnect: () => {
         console.log('Disconnected');
-        this.setState('connecting');
+        // Keep the update screen up; there is nothing to reconnect to
+        if (this.state !== 'update_required') {
+          this.setState('connecting');
+        }
+      },
+
+      onProtocolMismatch: (reason) => {
+        const message = document.getElementById('update-message')!;
+        message.textContent = reason === 'clientOutdated'
+          ? 'A new version of the game is available. Reload to update.'
+          : 'The server is being updated. Please try again in a few minutes.';
+        this.setState('update_required');
       },
 
       onAuthResult: (success, accountId, token, error) => {
@@ -190,21 +222,38 @@ export class Game {
       onInstanceChange: (event) => {
         console.log('Instance changed to', event.instanceType);
         this.playerId = event.playerId;
+        this.snapshotBuffer.reset();
         this.setState('playing');
-        this.renderer.setMapData(event.mapWidth, event.mapHeight, event.mapTiles);
+        // Streamed maps start out as void and fill in chunk by chunk
+        this.instanceId = event.instanceId;
+        this.mapWidth = event.mapWidth;
+        this.mapTiles = event.mapTiles ?? new Array(event.mapWidth * event.mapHeight).fill(TileType.VOID);
+        this.renderer.setMapData(event.mapWidth, event.mapHeight, this.mapTiles);
+        this.movement.setMap({ width: event.mapWidth, height: event.mapHeight, tiles: this.mapTiles });
+        this.projectiles.setMap({ width: event.mapWidth, height: event.mapHeight, tiles: this.mapTiles });
         // Close vault UI when changing instances
         if (this.vaultOpen) {
           this.closeVaultUI();
         }
       },
 
+      onMapChunk: (chunk) => {
+        // Ignore stragglers from an instance we've already left
+        if (chunk.instanceId !== this.instanceId) return;
+        applyMapChunk(this.mapTiles, this.mapWidth, chunk);
+        this.renderer.updateMapRegion(chunk.x, chunk.y, chunk.width, chunk.height);
+      },
+
       onSnapshot: (snapshot) => {
-        this.lastSnapshot = snapshot;
-        this.updateStatsUI();
-        // Update renderer with new snapshot for interpolation
-        if (this.playerId) {
-          this.renderer.updateSnapshot(snapshot, this.playerId);
-        }
+        this.applySnapshot(snapshot);
+      },
+
+      onSnapshotDelta: (delta) => {
+        // Rebuild the full snapshot from our copy of the delta's baseline
+        const snapshot = this.snapshotBuffer.apply(delta);
+        if (!snapshot) return;
+        this.network.ackSnapshot(snapshot.tick);
+        this.applySnapshot(snapshot);
       },
 
       onDamage: (event) => {
@@ -213,6 +262,7 @@ export class Game {
 
       onDeath: (event) => {
         if (event.entityType === 'player' && event.entityId === this.playerId) {
+          this.resumeToken = null;
           this.showDeathScreen(event.stats, event.killerName);
         }
       },
@@ -228,6 +278,14 @@ export class Game {
         this.renderer.playAbilityEffect(event);
       },
 
+      onProjectileSpawn: (event) => {
+        this.projectiles.spawn(event.projectiles);
+      },
+
+      onProjectileRemove: (event) => {
+        this.projectiles.remove(event.ids);
+      },
+
       onChat: (event) => {
         this.addChatMessage(event.sender, event.message);
       },
@@ -247,6 +305,39 @@ export class Game {
     });
   }
 
+  private beginLogin(): void {
+    // Try auto-login with saved session token
+    const savedToken = localStorage.getItem('rotmg_session_token');
+    if (savedToken) {
+      console.log('Attempting auto-login with saved session');
+      this.network.authenticateToken(savedToken);
+      // Don't show login screen yet, wait for auth result
+    } else {
+      // Pre-fill username if saved (password is NEVER stored for security)
+      const savedUsername = localStorage.getItem('rotmg_username');
+      if (savedUsername) {
+        (document.getElementById('username-input') as HTMLInputElement).value = savedUsername;
+      }
+      this.setState('login');
+    }
+  }
+
+  private applySnapshot(snapshot: WorldSnapshot): void {
+    this.lastSnapshot = snapshot;
+    this.updateStatsUI();
+
+    // Replay inputs the server hasn't processed yet on top of its position
+    const localPlayer = snapshot.players.find((p) => p.id === this.playerId);
+    if (localPlayer) {
+      this.movement.reconcile(localPlayer.position, snapshot.lastProcessedInput, localPlayer.moveSpeed);
+    }
+
+    // Update renderer with new snapshot for interpolation
+    if (this.playerId) {
+      this.renderer.updateSnapshot(snapshot, this.playerId);
+    }
+  }
+
   private setupUIHandlers(): void {
     // Prevent browser zoom with Ctrl+/- and Ctrl+scroll
     window.addEventListener('keydown', (e) => {
@@ -310,6 +401,11 @@ export class Game {
       this.network.createCharacter(classId);
     });
 
+    // Reload to pick up a new client build
+    document.getElementById('update-reload-btn')!.addEventListener('click', () => {
+      window.location.reload();
+    });
+
     // Logout
     document.getElementById('logout-btn')!.addEventListener('click', () => {
       // Get session token before clearing
@@ -326,7 +422,10 @@ export class Game {
       this.network.disconnect();
       this.characterList = null;
       this.playerId = null;
+      this.resumeToken = null;
       this.lastSnapshot = null;
+      this.snapshotBuffer.reset();
+      this.movement.reset();
       // Clear only password field (username stays for convenience)
       (document.getElementById('password-input') as HTMLInputElement).value = '';
       this.setState('login');
@@ -403,6 +502,16 @@ export class Game {
 
     this.input.setAbilityHandler(() => {
       if (this.state !== 'playing') return;
+
+      // The server treats uses during the cooldown as cheating, so wait it out here
+      const localPlayer = this.lastSnapshot?.players.find((p) => p.id === this.playerId);
+      const abilityId = localPlayer?.equipment[1];
+      const ability = abilityId ? ABILITIES[abilityId] : undefined;
+      if (!localPlayer || !ability || localPlayer.mp < ability.mpCost) return;
+
+      const now = performance.now();
+      if (now < this.abilityReadyAt) return;
+      this.abilityReadyAt = now + ability.cooldown * 1000;
       this.network.useAbility();
     });
 
@@ -413,6 +522,7 @@ export class Game {
 
     this.loginScreen.classList.toggle('hidden', newState !== 'login');
     this.characterScreen.classList.toggle('hidden', newState !== 'character_select');
+    this.updateScreen.classList.toggle('hidden', newState !== 'update_required');
 
     // Hide game UI elements when not playing
     const showGameUI = newState === 'playing';
@@ -1135,7 +1245,7 @@ export class Game {
   }
 
   private lastInputTime: number = 0;
-  private readonly INPUT_RATE = 50;
+  private abilityReadyAt: number = 0;
 
   // FPS tracking
   private frameCount = 0;
@@ -1157,25 +1267,30 @@ export class Game {
       // console.log(`FPS: ${this.currentFps}`);
     }
 
-    if (this.state === 'playing' && this.lastSnapshot && now - this.lastInputTime >= this.INPUT_RATE) {
-      const localPlayer = this.lastSnapshot.players.find((p) => p.id === this.playerId);
-      if (localPlayer) {
-        const screenPos = this.renderer.getPlayerScreenPosition(localPlayer.position);
-        const aimAngle = this.input.getAimAngle(screenPos);
-
-        this.network.sendInput({
-          moveDirection: this.input.getMoveDirection(),
-          aimAngle,
-          shooting: this.input.isShooting(),
-        });
-        this.lastInputTime = now;
+    if (this.state === 'playing') {
+      const moveDir = this.input.getMoveDirection();
+
+      // Send the movement gathered so far on a fixed rate, or early when the
+      // direction changes so each input covers a single direction
+      const inputDue = now - this.lastInputTime >= INPUT_INTERVAL_MS || this.movement.needsFlush(moveDir);
+      if (this.lastSnapshot && inputDue) {
+        const localPlayer = this.lastSnapshot.players.find((p) => p.id === this.playerId);
+        if (localPlayer) {
+          const screenPos = this.renderer.getPlayerScreenPosition(localPlayer.position);
+          const aimAngle = this.input.getAimAngle(screenPos);
+
+          this.network.sendInput(this.movement.createInput(aimAngle, this.input.isShooting()));
+          this.lastInputTime = now;
+        }
       }
-    }
 
-    if (this.state === 'playing') {
       // Apply local movement prediction for instant response
-      const moveDir = this.input.getMoveDirection();
-      this.renderer.applyLocalMovement(moveDir, deltaTime);
+      this.movement.advance(moveDir, deltaTime);
+      this.movement.update(deltaTime);
+      this.renderer.setLocalPlayerPosition(this.movement.getPosition());
+
+      this.projectiles.update(deltaTime);
+      this.renderer.setSimulatedProjectiles(this.projectiles.getProjectiles());
 
       // Update camera rotation smoothly based on held keys
       this.input.updateCameraRotation(deltaTime);
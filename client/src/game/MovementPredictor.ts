@@ -0,0 +1,151 @@
+import type { PlayerInput, TileGrid, Vec2 } from '@rotmg/shared';
+import { MAX_INPUT_DURATION, PLAYER_RADIUS, stepMovement } from '@rotmg/shared';
+
+interface PendingInput {
+  seq: number;
+  moveDirection: Vec2;
+  duration: number;
+}
+
+// Inputs kept for replay while waiting for the server to process them
+const MAX_PENDING_INPUTS = 64;
+// How fast a visual correction is smoothed out (higher = snappier)
+const CORRECTION_SPEED = 10;
+// Corrections larger than this (tiles) are applied instantly, e.g. teleports
+const SNAP_DISTANCE = 2;
+// Direction changes smaller than this (cosine of the angle) don't start a new
+// input, so slowly rotating the camera doesn't flood the server
+const SAME_DIRECTION_DOT = 0.99;
+
+/**
+ * Client-side prediction for the local player.
+ * Movement is applied locally as soon as it happens and bundled into
+ * sequenced inputs. When a snapshot arrives, the server position is taken as
+ * truth and every input it has not processed yet is replayed on top of it.
+ */
+export class MovementPredictor {
+  private grid: TileGrid | null = null;
+  private position: Vec2 | null = null;
+  private moveSpeed: number = 4;
+
+  // Sequence numbers keep increasing across resets so the server never
+  // mistakes a new input for a stale one
+  private nextSeq: number = 1;
+  private pending: PendingInput[] = [];
+
+  // Movement applied since the last input was sent
+  private currentDirection: Vec2 = { x: 0, y: 0 };
+  private currentDuration: number = 0;
+
+  // Offset between what is drawn and the predicted position, decayed over time
+  private correction: Vec2 = { x: 0, y: 0 };
+
+  setMap(grid: TileGrid): void {
+    this.grid = grid;
+    this.reset();
+  }
+
+  reset(): void {
+    this.position = null;
+    this.pending = [];
+    this.currentDirection = { x: 0, y: 0 };
+    this.currentDuration = 0;
+    this.correction = { x: 0, y: 0 };
+  }
+
+  // Whether the movement gathered so far must be sent before moving in a
+  // new direction, since each input carries a single direction
+  needsFlush(moveDirection: Vec2): boolean {
+    if (this.currentDuration <= 0) return false;
+    if (this.currentDuration >= MAX_INPUT_DURATION) return true;
+    return !sameDirection(moveDirection, this.currentDirection);
+  }
+
+  advance(moveDirection: Vec2, deltaTime: number): void {
+    if (!this.grid || !this.position) return;
+
+    const duration = Math.min(deltaTime, MAX_INPUT_DURATION - this.currentDuration);
+    if (duration <= 0) return;
+
+    this.currentDirection = { ...moveDirection };
+    this.currentDuration += duration;
+    this.position = stepMovement(this.grid, this.position, moveDirection, this.moveSpeed, duration, PLAYER_RADIUS);
+  }
+
+  // Package the movement gathered since the last call into an input
+  createInput(aimAngle: number, shooting: boolean): PlayerInput {
+    const input: PlayerInput = {
+      seq: this.nextSeq++,
+      duration: this.currentDuration,
+      moveDirection: { ...this.currentDirection },
+      aimAngle,
+      shooting,
+    };
+
+    if (this.position) {
+      this.pending.push({ seq: input.seq, moveDirection: input.moveDirection, duration: input.duration });
+      if (this.pending.length > MAX_PENDING_INPUTS) {
+        this.pending.shift();
+      }
+    }
+
+    this.currentDuration = 0;
+    return input;
+  }
+
+  reconcile(serverPosition: Vec2, lastProcessedInput: number, moveSpeed: number): void {
+    this.moveSpeed = moveSpeed;
+    this.pending = this.pending.filter((input) => input.seq > lastProcessedInput);
+
+    const previous = this.getPosition();
+
+    let predicted: Vec2 = { ...serverPosition };
+    if (this.grid) {
+      for (const input of this.pending) {
+        predicted = stepMovement(this.grid, predicted, input.moveDirection, moveSpeed, input.duration, PLAYER_RADIUS);
+      }
+      predicted = stepMovement(
+        this.grid,
+        predicted,
+        this.currentDirection,
+        moveSpeed,
+        this.currentDuration,
+        PLAYER_RADIUS
+      );
+    }
+    this.position = predicted;
+
+    // Smooth small mispredictions instead of jumping
+    if (previous) {
+      const dx = previous.x - predicted.x;
+      const dy = previous.y - predicted.y;
+      if (dx * dx + dy * dy > SNAP_DISTANCE * SNAP_DISTANCE) {
+        this.correction = { x: 0, y: 0 };
+      } else {
+        this.correction = { x: dx, y: dy };
+      }
+    }
+  }
+
+  update(deltaTime: number): void {
+    const t = Math.min(1, deltaTime * CORRECTION_SPEED);
+    this.correction.x -= this.correction.x * t;
+    this.correction.y -= this.correction.y * t;
+  }
+
+  // Position to draw the local player at
+  getPosition(): Vec2 | null {
+    if (!this.position) return null;
+    return {
+      x: this.position.x + this.correction.x,
+      y: this.position.y + this.correction.y,
+    };
+  }
+}
+
+function sameDirection(a: Vec2, b: Vec2): boolean {
+  const lenA = Math.sqrt(a.x * a.x + a.y * a.y);
+  const lenB = Math.sqrt(b.x * b.x + b.y * b.y);
+  if (lenA === 0 || lenB === 0) return lenA === lenB;
+  return (a.x * b.x + a.y * b.y) / (lenA * lenB) >= SAME_DIRECTION_DOT;
+}
@@ -0,0 +1,79 @@
+import type { ProjectileSnapshot, ProjectileSpawn, TileGrid, Vec2 } from '@rotmg/shared';
+import { isWalkableAt } from '@rotmg/shared';
+
+interface SimulatedProjectile {
+  id: string;
+  definitionId: string;
+  ownerType: 'player' | 'enemy';
+  origin: Vec2;
+  velocity: Vec2;
+  lifetime: number;
+  age: number;
+  position: Vec2;
+}
+
+/**
+ * Local flight simulation for projectiles announced by projectileSpawn events.
+ * Projectiles move in a straight line until their lifetime runs out or they
+ * reach a wall; the server only reports the ones that hit something.
+ */
+export class ProjectileSimulator {
+  private grid: TileGrid | null = null;
+  private projectiles: Map<string, SimulatedProjectile> = new Map();
+
+  setMap(grid: TileGrid): void {
+    this.grid = grid;
+    this.projectiles.clear();
+  }
+
+  spawn(spawns: ProjectileSpawn[]): void {
+    for (const spawn of spawns) {
+      const id = `p${spawn.id}`;
+      this.projectiles.set(id, {
+        id,
+        definitionId: spawn.definitionId,
+        ownerType: spawn.ownerType,
+        origin: { ...spawn.origin },
+        velocity: {
+          x: Math.cos(spawn.angle) * spawn.speed,
+          y: Math.sin(spawn.angle) * spawn.speed,
+        },
+        lifetime: spawn.lifetime,
+        age: 0,
+        position: { ...spawn.origin },
+      });
+    }
+  }
+
+  remove(ids: number[]): void {
+    for (const id of ids) {
+      this.projectiles.delete(`p${id}`);
+    }
+  }
+
+  update(deltaTime: number): void {
+    for (const [id, projectile] of this.projectiles) {
+      projectile.age += deltaTime;
+      // Positions are computed from the origin so frame rate doesn't add drift
+      projectile.position = {
+        x: projectile.origin.x + projectile.velocity.x * projectile.age,
+        y: projectile.origin.y + projectile.velocity.y * projectile.age,
+      };
+
+      const hitWall = this.grid !== null && !isWalkableAt(this.grid, projectile.position.x, projectile.position.y);
+      if (projectile.age >= projectile.lifetime || hitWall) {
+        this.projectiles.delete(id);
+      }
+    }
+  }
+
+  getProjectiles(): ProjectileSnapshot[] {
+    return Array.from(this.projectiles.values(), (p) => ({
+      id: p.id,
+      definitionId: p.definitionId,
+      position: p.position,
+      velocity: p.velocity,
+      ownerType: p.ownerType,
+    }));
+  }
+}
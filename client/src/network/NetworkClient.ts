@@ -1,36 +1,59 @@
 import { encode, decode } from '@msgpack/msgpack';
+import {
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_FEATURES,
+  unpackEnemies,
+  unpackProjectiles,
+} from '@rotmg/shared';
 import type {
   ClientMessage,
   ServerMessage,
   PlayerInput,
   WorldSnapshot,
+  WorldSnapshotDelta,
+  PackedSnapshotDelta,
   CharacterListData,
   DamageEvent,
   DeathEvent,
   LevelUpEvent,
   AbilityEffectEvent,
+  ProjectileSpawnEvent,
+  ProjectileRemoveEvent,
   InstanceChangeEvent,
+  MapChunk,
   ChatEvent,
   VaultOpenEvent,
   VaultUpdateEvent,
+  HelloResult,
+  ProtocolFeature,
 } from '@rotmg/shared';
 
+export type ProtocolMismatchReason = 'clientOutdated' | 'serverOutdated';
+
 export type NetworkEventHandler = {
   onSnapshot?: (snapshot: WorldSnapshot) => void;
+  onSnapshotDelta?: (delta: WorldSnapshotDelta) => void;
   onDamage?: (event: DamageEvent) => void;
   onDeath?: (event: DeathEvent) => void;
   onLevelUp?: (event: LevelUpEvent) => void;
   onAbilityEffect?: (event: AbilityEffectEvent) => void;
+  onProjectileSpawn?: (event: ProjectileSpawnEvent) => void;
+  onProjectileRemove?: (event: ProjectileRemoveEvent) => void;
   onAuthResult?: (success: boolean, accountId?: string, token?: string, error?: string) => void;
+  onResumeToken?: (token: string) => void;
+  onResumeResult?: (success: boolean) => void;
   onRegisterResult?: (success: boolean, message?: string, error?: string) => void;
   onCharacterList?: (data: CharacterListData) => void;
   onInstanceChange?: (event: InstanceChangeEvent) => void;
+  onMapChunk?: (chunk: MapChunk) => void;
   onChat?: (event: ChatEvent) => void;
   onVaultOpen?: (event: VaultOpenEvent) => void;
   onVaultUpdate?: (event: VaultUpdateEvent) => void;
   onError?: (message: string) => void;
   onConnect?: () => void;
   onDisconnect?: () => void;
+  onProtocolMismatch?: (reason: ProtocolMismatchReason) => void;
 };
 
 export class NetworkClient {
@@ -39,6 +62,9 @@ export class NetworkClient {
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private serverUrl: string;
+  private features: Set<ProtocolFeature> = new Set();
+  // Set once the server turns us away; reconnecting wouldn't help
+  private incompatible = false;
 
   constructor(serverUrl: string) {
     this.serverUrl = serverUrl;
@@ -56,8 +82,8 @@ export class NetworkClient {
 
     this.ws.onopen = () => {
       console.log('Connected to server');
-      this.reconnectAttempts = 0;
-      this.handlers.onConnect?.();
+      // The connection is usable once the server answers the handshake
+      this.send({ type: 'hello', data: { protocolVersion: PROTOCOL_VERSION, features: [...PROTOCOL_FEATURES] } });
     };
 
     this.ws.onmessage = (event) => {
@@ -72,8 +98,11 @@ export class NetworkClient {
 
     this.ws.onclose = () => {
       console.log('Disconnected from server');
+      this.features.clear();
       this.handlers.onDisconnect?.();
-      this.attemptReconnect();
+      if (!this.incompatible) {
+        this.attemptReconnect();
+      }
     };
 
     this.ws.onerror = (error) => {
@@ -91,9 +120,18 @@ export class NetworkClient {
 
   private handleMessage(message: ServerMessage): void {
     switch (message.type) {
+      case 'helloResult':
+        this.handleHelloResult(message.data);
+        break;
       case 'snapshot':
         this.handlers.onSnapshot?.(message.data);
         break;
+      case 'snapshotDelta':
+        this.handlers.onSnapshotDelta?.(message.data);
+        break;
+      case 'packedSnapshot':
+        this.handlers.onSnapshotDelta?.(this.unpackSnapshot(message.data));
+        break;
       case 'damage':
         this.handlers.onDamage?.(message.data);
         break;
@@ -111,6 +149,12 @@ export class NetworkClient {
           message.data.error
         );
         break;
+      case 'resumeToken':
+        this.handlers.onResumeToken?.(message.data.token);
+        break;
+      case 'resumeResult':
+        this.handlers.onResumeResult?.(message.data.success);
+        break;
       case 'registerResult':
         this.handlers.onRegisterResult?.(
           message.data.success,
@@ -124,12 +168,21 @@ export class NetworkClient {
       case 'instanceChange':
         this.handlers.onInstanceChange?.(message.data);
         break;
+      case 'mapChunk':
+        this.handlers.onMapChunk?.(message.data);
+        break;
       case 'chat':
         this.handlers.onChat?.(message.data);
         break;
       case 'abilityEffect':
         this.handlers.onAbilityEffect?.(message.data);
         break;
+      case 'projectileSpawn':
+        this.handlers.onProjectileSpawn?.(message.data);
+        break;
+      case 'projectileRemove':
+        this.handlers.onProjectileRemove?.(message.data);
+        break;
       case 'vaultOpen':
         this.handlers.onVaultOpen?.(message.data);
         break;
@@ -142,6 +195,42 @@ export class NetworkClient {
     }
   }
 
+  // Expand the binary enemy and projectile lists; their ids become handle strings
+  private unpackSnapshot(packed: PackedSnapshotDelta): WorldSnapshotDelta {
+    const { definitions, enemies, projectiles, ...rest } = packed;
+    return {
+      ...rest,
+      enemies: unpackEnemies(enemies, definitions),
+      projectiles: unpackProjectiles(projectiles, definitions),
+    };
+  }
+
+  private handleHelloResult(result: HelloResult): void {
+    if (!result.accepted) {
+      this.rejectProtocol('clientOutdated');
+      return;
+    }
+    if (result.protocolVersion < MIN_PROTOCOL_VERSION) {
+      this.rejectProtocol('serverOutdated');
+      return;
+    }
+
+    this.features = new Set(result.features);
+    this.reconnectAttempts = 0;
+    this.handlers.onConnect?.();
+  }
+
+  private rejectProtocol(reason: ProtocolMismatchReason): void {
+    console.warn(`Protocol mismatch: ${reason}`);
+    this.incompatible = true;
+    this.handlers.onProtocolMismatch?.(reason);
+    this.disconnect();
+  }
+
+  hasFeature(feature: ProtocolFeature): boolean {
+    return this.features.has(feature);
+  }
+
   private send(message: ClientMessage): void {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
       this.ws.send(encode(message));
@@ -157,6 +246,10 @@ export class NetworkClient {
     this.send({ type: 'authToken', data: { token } });
   }
 
+  resume(token: string): void {
+    this.send({ type: 'resume', data: { token } });
+  }
+
   logout(token: string): void {
     this.send({ type: 'logout', data: { token } });
   }
@@ -177,6 +270,10 @@ export class NetworkClient {
     this.send({ type: 'input', data: input });
   }
 
+  ackSnapshot(tick: number): void {
+    this.send({ type: 'snapshotAck', data: { tick } });
+  }
+
   sendShoot(aimAngle: number): void {
     this.send({ type: 'shoot', data: { aimAngle } });
   }
@@ -0,0 +1,75 @@
+import type { WorldSnapshot, WorldSnapshotDelta, EntityDelta } from '@rotmg/shared';
+
+// Upper bound on reconstructed snapshots kept as potential baselines
+const MAX_HISTORY = 64;
+
+/**
+ * Rebuilds full world snapshots from the server's delta stream.
+ * Every reconstructed snapshot is kept until the server moves its baseline past
+ * it, since the next delta may be relative to any snapshot we acknowledged.
+ */
+export class SnapshotBuffer {
+  private history: Map<number, WorldSnapshot> = new Map();
+
+  // Returns null if the delta references a baseline we no longer have. Such
+  // deltas go unacked, and the server falls back to full snapshots once too
+  // many have.
+  apply(delta: WorldSnapshotDelta): WorldSnapshot | null {
+    let base: WorldSnapshot | null = null;
+    if (delta.baseTick !== null) {
+      base = this.history.get(delta.baseTick) ?? null;
+      if (!base) return null;
+    }
+
+    const snapshot: WorldSnapshot = {
+      tick: delta.tick,
+      timestamp: delta.timestamp,
+      instanceId: delta.instanceId,
+      instanceType: delta.instanceType,
+      lastProcessedInput: delta.lastProcessedInput,
+      players: applyEntityDelta(base?.players ?? [], delta.players),
+      enemies: applyEntityDelta(base?.enemies ?? [], delta.enemies),
+      projectiles: applyEntityDelta(base?.projectiles ?? [], delta.projectiles),
+      loots: applyEntityDelta(base?.loots ?? [], delta.loots),
+      portals: applyEntityDelta(base?.portals ?? [], delta.portals),
+      vaultChests: applyEntityDelta(base?.vaultChests ?? [], delta.vaultChests),
+    };
+
+    // The server never diffs against anything older than its current baseline
+    if (delta.baseTick !== null) {
+      for (const tick of this.history.keys()) {
+        if (tick < delta.baseTick) {
+          this.history.delete(tick);
+        }
+      }
+    }
+
+    this.history.set(snapshot.tick, snapshot);
+    while (this.history.size > MAX_HISTORY) {
+      const oldest = this.history.keys().next().value as number;
+      this.history.delete(oldest);
+    }
+
+    return snapshot;
+  }
+
+  reset(): void {
+    this.history.clear();
+  }
+}
+
+function applyEntityDelta<T extends { id: string }>(base: T[], delta: EntityDelta<T>): T[] {
+  const removed = new Set(delta.removed);
+  const changes = new Map(delta.changed.map((change) => [change.id, change]));
+
+  const result: T[] = [];
+  for (const entity of base) {
+    if (removed.has(entity.id)) continue;
+    const change = changes.get(entity.id);
+    result.push(change ? ({ ...entity, ...change } as T) : entity);
+  }
+  for (const entity of delta.added) {
+    result.push(entity);
+  }
+  return result;
+}
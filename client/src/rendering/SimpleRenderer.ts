@@ -2,6 +2,7 @@ import type {
   WorldSnapshot,
   Vec2,
   AbilityEffectEvent,
+  ProjectileSnapshot,
 } from '@rotmg/shared';
 import { ENEMIES, ITEMS } from '@rotmg/shared';
 
@@ -66,14 +67,14 @@ export class SimpleRenderer {
   private lastSnapshot: WorldSnapshot | null = null;
   private lastPlayerId: string | null = null;
 
-  // Client-side prediction for local player
+  // Predicted local player position, provided by the game's MovementPredictor
   private predictedPos: Vec2 | null = null;
-  private lastMoveDir: Vec2 = { x: 0, y: 0 };
-  private playerSpeed: number = 5; // Base speed, updated from snapshot
+
+  // Projectiles simulated locally from spawn events, drawn alongside snapshot ones
+  private simulatedProjectiles: ProjectileSnapshot[] = [];
 
   // Interpolation settings
   private readonly LERP_SPEED = 15; // How fast to interpolate (higher = snappier)
-  private readonly RECONCILE_SPEED = 10; // How fast to reconcile prediction with server
 
   constructor(container: HTMLElement) {
     this.canvas = document.createElement('canvas');
@@ -122,6 +123,7 @@ export class SimpleRenderer {
     // Clear interpolation state
     this.entityPositions.clear();
     this.predictedPos = null;
+    this.simulatedProjectiles = [];
     this.lastSnapshot = null;
 
     // Clear map data
@@ -155,25 +157,37 @@ export class SimpleRenderer {
     this.mapCanvas.width = width * TILE_SIZE;
     this.mapCanvas.height = height * TILE_SIZE;
 
-    const ctx = this.mapCanvas.getContext('2d');
+    // Render entire map to offscreen canvas once
+    this.drawMapTiles(0, 0, width, height);
+
+    // Render minimap base
+    this.renderMinimapBase();
+  }
+
+  // Redraw part of the map after its tiles changed (e.g. a streamed chunk arrived)
+  updateMapRegion(x: number, y: number, width: number, height: number): void {
+    this.drawMapTiles(x, y, width, height);
+    this.drawMinimapTiles(x, y, width, height);
+  }
+
+  private drawMapTiles(startX: number, startY: number, width: number, height: number): void {
+    const ctx = this.mapCanvas?.getContext('2d');
     if (!ctx) return;
 
-    // Render entire map to offscreen canvas once
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const tile = tiles[y * width + x];
+    const endX = Math.min(startX + width, this.mapWidth);
+    const endY = Math.min(startY + height, this.mapHeight);
+    for (let y = startY; y < endY; y++) {
+      for (let x = startX; x < endX; x++) {
+        const tile = this.mapTiles[y * this.mapWidth + x];
         const isLight = (x + y) % 2 === 0;
         const colors = TILE_COLORS[tile] || TILE_COLORS[1];
         ctx.fillStyle = isLight ? colors.light : colors.dark;
         ctx.fillRect(x * TILE_SIZE, y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
       }
     }
-
-    // Render minimap base
-    this.renderMinimapBase(tiles);
   }
 
-  private renderMinimapBase(tiles: number[]): void {
+  private renderMinimapBase(): void {
     if (!this.minimapCanvas) return;
 
     const width = this.minimapCanvas.width;
@@ -191,11 +205,20 @@ export class SimpleRenderer {
     ctx.fillStyle = '#1a1a2e';
     ctx.fillRect(0, 0, width, height);
 
+    this.drawMinimapTiles(0, 0, this.mapWidth, this.mapHeight);
+  }
+
+  private drawMinimapTiles(startX: number, startY: number, width: number, height: number): void {
+    const ctx = this.minimapCache?.getContext('2d');
+    if (!ctx) return;
+
     // Draw walkable areas and walls
     const scale = this.minimapScale;
-    for (let y = 0; y < this.mapHeight; y++) {
-      for (let x = 0; x < this.mapWidth; x++) {
-        const tile = tiles[y * this.mapWidth + x];
+    const endX = Math.min(startX + width, this.mapWidth);
+    const endY = Math.min(startY + height, this.mapHeight);
+    for (let y = startY; y < endY; y++) {
+      for (let x = startX; x < endX; x++) {
+        const tile = this.mapTiles[y * this.mapWidth + x];
         if (tile === 2) {
           // Wall
           ctx.fillStyle = '#444466';
@@ -224,19 +247,6 @@ export class SimpleRenderer {
 
     for (const player of snapshot.players) {
       seenIds.add(player.id);
-
-      // For local player, update speed and reconcile prediction
-      if (player.id === playerId) {
-        // Calculate speed from player stats (same formula as server)
-        this.playerSpeed = 4 + player.speed * 0.1;
-
-        // Initialize prediction if needed
-        if (!this.predictedPos) {
-          this.predictedPos = { ...player.position };
-        }
-        // Server position is stored in entity target for reconciliation
-      }
-
       this.updateEntityTarget(player.id, player.position, now);
     }
 
@@ -335,56 +345,12 @@ export class SimpleRenderer {
     return entity.currentPos;
   }
 
-  // Check if a tile is walkable (for client-side prediction)
-  private isWalkable(x: number, y: number): boolean {
-    const tileX = Math.floor(x);
-    const tileY = Math.floor(y);
-    if (tileX < 0 || tileX >= this.mapWidth || tileY < 0 || tileY >= this.mapHeight) {
-      return false;
-    }
-    const tile = this.mapTiles[tileY * this.mapWidth + tileX];
-    return tile !== 0 && tile !== 2; // 0 = void, 2 = wall
+  setLocalPlayerPosition(position: Vec2 | null): void {
+    this.predictedPos = position;
   }
 
-  // Apply local movement to predicted position
-  applyLocalMovement(moveDir: Vec2, deltaTime: number): void {
-    if (!this.predictedPos) return;
-
-    this.lastMoveDir = moveDir;
-
-    // Normalize direction
-    const len = Math.sqrt(moveDir.x * moveDir.x + moveDir.y * moveDir.y);
-    if (len < 0.01) return;
-
-    const nx = moveDir.x / len;
-    const ny = moveDir.y / len;
-
-    // Calculate new position
-    const newX = this.predictedPos.x + nx * this.playerSpeed * deltaTime;
-    const newY = this.predictedPos.y + ny * this.playerSpeed * deltaTime;
-
-    // Simple collision checking (same as server)
-    const radius = 0.4; // Player radius
-    if (this.isWalkable(newX - radius, newY - radius) &&
-        this.isWalkable(newX + radius, newY - radius) &&
-        this.isWalkable(newX - radius, newY + radius) &&
-        this.isWalkable(newX + radius, newY + radius)) {
-      this.predictedPos.x = newX;
-      this.predictedPos.y = newY;
-    } else {
-      // Try sliding along walls
-      if (this.isWalkable(newX - radius, this.predictedPos.y - radius) &&
-          this.isWalkable(newX + radius, this.predictedPos.y - radius) &&
-          this.isWalkable(newX - radius, this.predictedPos.y + radius) &&
-          this.isWalkable(newX + radius, this.predictedPos.y + radius)) {
-        this.predictedPos.x = newX;
-      } else if (this.isWalkable(this.predictedPos.x - radius, newY - radius) &&
-                 this.isWalkable(this.predictedPos.x + radius, newY - radius) &&
-                 this.isWalkable(this.predictedPos.x - radius, newY + radius) &&
-                 this.isWalkable(this.predictedPos.x + radius, newY + radius)) {
-        this.predictedPos.y = newY;
-      }
-    }
+  setSimulatedProjectiles(projectiles: ProjectileSnapshot[]): void {
+    this.simulatedProjectiles = projectiles;
   }
 
   // Called every frame to render with interpolation
@@ -395,15 +361,6 @@ export class SimpleRenderer {
     const snapshot = this.lastSnapshot;
     const playerId = this.lastPlayerId;
 
-    // Reconcile prediction with server position
-    const serverEntity = this.entityPositions.get(playerId);
-    if (this.predictedPos && serverEntity) {
-      // Smoothly pull predicted position toward server position
-      const t = Math.min(1, deltaTime * this.RECONCILE_SPEED);
-      this.predictedPos.x += (serverEntity.targetPos.x - this.predictedPos.x) * t;
-      this.predictedPos.y += (serverEntity.targetPos.y - this.predictedPos.y) * t;
-    }
-
     // Update other entities interpolation
     for (const [id, entity] of this.entityPositions) {
       if (id !== playerId) {
@@ -684,10 +641,13 @@ export class SimpleRenderer {
         screenY = proj.position.y * TILE_SIZE - this.cameraY;
       }
 
-      ctx.beginPath();
-      ctx.arc(screenX, screenY, 5, 0, Math.PI * 2);
-      ctx.fillStyle = proj.ownerType === 'player' ? '#44ff44' : '#ff4444';
-      ctx.fill();
+      this.drawProjectile(ctx, screenX, screenY, proj.ownerType);
+    }
+
+    for (const proj of this.simulatedProjectiles) {
+      const screenX = proj.position.x * TILE_SIZE - this.cameraX;
+      const screenY = proj.position.y * TILE_SIZE - this.cameraY;
+      this.drawProjectile(ctx, screenX, screenY, proj.ownerType);
     }
 
     // Restore context state (un-rotate)
@@ -708,6 +668,13 @@ export class SimpleRenderer {
     this.renderMinimap(snapshot, playerId);
   }
 
+  private drawProjectile(ctx: CanvasRenderingContext2D, screenX: number, screenY: number, ownerType: 'player' | 'enemy'): void {
+    ctx.beginPath();
+    ctx.arc(screenX, screenY, 5, 0, Math.PI * 2);
+    ctx.fillStyle = ownerType === 'player' ? '#44ff44' : '#ff4444';
+    ctx.fill();
+  }
+
   private renderMinimap(snapshot: WorldSnapshot, playerId: string): void {
     if (!this.minimapCtx || !this.minimapCanvas || !this.minimapCache) return;
 
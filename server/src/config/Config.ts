@@ -0,0 +1,298 @@
+import { existsSync, readFileSync } from 'fs';
+import { Vec2 } from '@rotmg/shared';
+import { POSITION_HISTORY_MS } from '../game/PositionHistory.js';
+import { RateLimits, validateRateLimitOverrides } from '../network/RateLimiter.js';
+import { LoggerOptions, isLogLevel } from '../logging/Logger.js';
+import { StoreBackend, STORE_BACKENDS, isStoreBackend } from '../persistence/PersistenceStore.js';
+
+/**
+ * Server settings. Defaults are below; a JSON file (CONFIG_PATH, or
+ * ./config.json if present) overrides any subset of them, and environment
+ * variables override the file. The result is checked once at startup, so a
+ * bad value stops the server rather than surfacing later.
+ */
+
+// Where the fixed portals between the nexus, the realm and vaults stand
+export interface PortalPositions {
+  nexusToRealm: Vec2;
+  nexusToVault: Vec2;
+  realmToNexus: Vec2;
+  vaultToNexus: Vec2;
+}
+
+export interface ServerConfig {
+  network: {
+    port: number;
+    // Browser origins allowed to connect. Clients that send no Origin header
+    // (anything but a browser) are always allowed.
+    allowedOrigins: string[];
+    maxRewindMs: number; // cap on how far back player shots are lag-compensated
+    rateLimits: Partial<RateLimits>; // per-message-type overrides of the defaults
+    resumeGraceMs: number; // how long a disconnected character waits for a resume
+  };
+  world: {
+    tickRate: number; // simulation ticks per second
+    instanceWorkers: number; // worker threads for instances; 0 keeps them on the main thread
+    portals: PortalPositions;
+  };
+  gameplay: {
+    maxCharacters: number; // per account
+  };
+  persistence: {
+    backend: StoreBackend;
+    dbPath: string;
+    flushIntervalMs: number; // how often the sqljs backend writes the database file
+    autoSaveIntervalMs: number; // how often characters in play are saved
+    sessionTtlMs: number; // how long a login token stays valid
+    itemLedgerDays: number; // how long item events are kept; 0 keeps them forever
+  };
+  admin: {
+    adminsFile: string; // usernames with admin commands, one per line; reloaded on change
+    statusPort: number; // local status endpoints (profiler); 0 turns them off
+    metricsPort: number; // Prometheus metrics at /metrics; 0 turns them off
+    metricsHost: string; // unlike the status endpoints, metrics are scraped from elsewhere
+  };
+  logging: LoggerOptions;
+}
+
+export const DEFAULT_CONFIG: ServerConfig = {
+  network: {
+    port: 8080,
+    allowedOrigins: [
+      'http://localhost:3000',
+      'https://server.theanthonywang.com',
+      'http://server.theanthonywang.com',
+    ],
+    maxRewindMs: 300,
+    rateLimits: {},
+    resumeGraceMs: 60_000,
+  },
+  world: {
+    tickRate: 20,
+    instanceWorkers: 0,
+    portals: {
+      nexusToRealm: { x: 15, y: 10 },
+      nexusToVault: { x: 10, y: 10 },
+      realmToNexus: { x: 7, y: 7 },
+      vaultToNexus: { x: 7.5, y: 12.5 },
+    },
+  },
+  gameplay: {
+    maxCharacters: 2,
+  },
+  persistence: {
+    backend: 'sqljs',
+    dbPath: './data/game.db',
+    flushIntervalMs: 30_000,
+    autoSaveIntervalMs: 30_000,
+    sessionTtlMs: 30 * 24 * 60 * 60 * 1000, // 30 days
+    itemLedgerDays: 180,
+  },
+  admin: {
+    adminsFile: './data/admins.txt',
+    statusPort: 0,
+    metricsPort: 0,
+    metricsHost: '0.0.0.0',
+  },
+  logging: {
+    level: 'info',
+    format: 'text',
+  },
+};
+
+const DEFAULT_CONFIG_PATH = './config.json';
+
+// Every problem found, so they can all be fixed in one go
+export class ConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid configuration:\n  ${problems.join('\n  ')}`);
+    this.name = 'ConfigError';
+    this.problems = problems;
+  }
+}
+
+type EnvParser = (value: string) => unknown;
+
+const integer: EnvParser = (value) => Number(value);
+const string: EnvParser = (value) => value;
+const list: EnvParser = (value) =>
+  value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+const json: EnvParser = (value) => JSON.parse(value);
+
+// Environment variables and the settings they override
+const ENV_OVERRIDES: { name: string; path: string; parse: EnvParser }[] = [
+  { name: 'PORT', path: 'network.port', parse: integer },
+  { name: 'ALLOWED_ORIGINS', path: 'network.allowedOrigins', parse: list },
+  { name: 'MAX_REWIND_MS', path: 'network.maxRewindMs', parse: integer },
+  // e.g. {"chat":{"capacity":5,"refillPerSecond":2}}
+  { name: 'RATE_LIMITS', path: 'network.rateLimits', parse: json },
+  { name: 'RESUME_GRACE_MS', path: 'network.resumeGraceMs', parse: integer },
+  { name: 'TICK_RATE', path: 'world.tickRate', parse: integer },
+  { name: 'INSTANCE_WORKERS', path: 'world.instanceWorkers', parse: integer },
+  { name: 'MAX_CHARACTERS', path: 'gameplay.maxCharacters', parse: integer },
+  { name: 'DB_BACKEND', path: 'persistence.backend', parse: (value) => value.toLowerCase() },
+  { name: 'DB_PATH', path: 'persistence.dbPath', parse: string },
+  { name: 'DB_FLUSH_INTERVAL_MS', path: 'persistence.flushIntervalMs', parse: integer },
+  { name: 'AUTO_SAVE_INTERVAL_MS', path: 'persistence.autoSaveIntervalMs', parse: integer },
+  { name: 'SESSION_TTL_MS', path: 'persistence.sessionTtlMs', parse: integer },
+  { name: 'ITEM_LEDGER_DAYS', path: 'persistence.itemLedgerDays', parse: integer },
+  { name: 'ADMINS_FILE', path: 'admin.adminsFile', parse: string },
+  { name: 'STATUS_PORT', path: 'admin.statusPort', parse: integer },
+  { name: 'METRICS_PORT', path: 'admin.metricsPort', parse: integer },
+  { name: 'METRICS_HOST', path: 'admin.metricsHost', parse: string },
+  { name: 'LOG_LEVEL', path: 'logging.level', parse: (value) => value.toLowerCase() },
+  { name: 'LOG_FORMAT', path: 'logging.format', parse: (value) => value.toLowerCase() },
+];
+
+// Returns a problem with the value, or null if it is fine
+type Check = (value: unknown) => string | null;
+
+function integerIn(min: number, max: number): Check {
+  return (value) =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+      ? null
+      : `must be an integer from ${min} to ${max}`;
+}
+
+const port: Check = integerIn(0, 65535);
+// The most setTimeout and setInterval accept; larger delays fire at once
+const timerMs: Check = integerIn(1, 2_147_483_647);
+const nonEmptyString: Check = (value) =>
+  typeof value === 'string' && value.length > 0 ? null : 'must be a non-empty string';
+const position: Check = (value) => {
+  const { x, y } = (isObject(value) ? value : {}) as Partial<Vec2>;
+  return isObject(value) &&
+    Object.keys(value).length === 2 &&
+    Number.isFinite(x) &&
+    Number.isFinite(y) &&
+    (x as number) >= 0 &&
+    (y as number) >= 0
+    ? null
+    : 'must be { "x": number, "y": number } with non-negative coordinates';
+};
+
+const CHECKS: Record<string, Check> = {
+  'network.port': port,
+  'network.allowedOrigins': (value) =>
+    Array.isArray(value) && value.every((origin) => typeof origin === 'string' && origin.length > 0)
+      ? null
+      : 'must be a list of origins such as "https://example.com"',
+  'network.maxRewindMs': integerIn(0, POSITION_HISTORY_MS),
+  'network.rateLimits': (value) => {
+    try {
+      validateRateLimitOverrides(value);
+      return null;
+    } catch (e) {
+      return (e as Error).message;
+    }
+  },
+  'network.resumeGraceMs': timerMs,
+  'world.tickRate': integerIn(1, 100),
+  'world.instanceWorkers': integerIn(0, 64),
+  'world.portals.nexusToRealm': position,
+  'world.portals.nexusToVault': position,
+  'world.portals.realmToNexus': position,
+  'world.portals.vaultToNexus': position,
+  'gameplay.maxCharacters': integerIn(1, 100),
+  'persistence.backend': (value) =>
+    typeof value === 'string' && isStoreBackend(value) ? null : `must be one of ${STORE_BACKENDS.join(', ')}`,
+  'persistence.dbPath': nonEmptyString,
+  'persistence.flushIntervalMs': timerMs,
+  'persistence.autoSaveIntervalMs': timerMs,
+  'persistence.sessionTtlMs': integerIn(1, Number.MAX_SAFE_INTEGER),
+  'persistence.itemLedgerDays': integerIn(0, 36_500),
+  'admin.adminsFile': nonEmptyString,
+  'admin.statusPort': port,
+  'admin.metricsPort': port,
+  'admin.metricsHost': nonEmptyString,
+  'logging.level': (value) =>
+    typeof value === 'string' && isLogLevel(value) ? null : 'must be one of debug, info, warn, error',
+  'logging.format': (value) => (value === 'text' || value === 'json' ? null : 'must be text or json'),
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Copies `overrides` onto `target`, section by section. Settings not in the
+// defaults are reported rather than ignored, since they are usually typos.
+function merge(target: Record<string, unknown>, overrides: unknown, path: string, problems: string[]): void {
+  if (!isObject(overrides)) {
+    problems.push(`${path || 'config'}: must be an object`);
+    return;
+  }
+  for (const [key, value] of Object.entries(overrides)) {
+    const keyPath = path ? `${path}.${key}` : key;
+    if (!Object.prototype.hasOwnProperty.call(target, key)) {
+      problems.push(`${keyPath}: unknown setting`);
+    } else if (keyPath in CHECKS) {
+      target[key] = value;
+    } else {
+      merge(target[key] as Record<string, unknown>, value, keyPath, problems);
+    }
+  }
+}
+
+function setPath(config: ServerConfig, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let section = config as unknown as Record<string, unknown>;
+  for (const key of keys.slice(0, -1)) {
+    section = section[key] as Record<string, unknown>;
+  }
+  section[keys[keys.length - 1]] = value;
+}
+
+function getPath(config: ServerConfig, path: string): unknown {
+  return path.split('.').reduce<unknown>((section, key) => (section as Record<string, unknown>)[key], config);
+}
+
+/**
+ * Builds the configuration from the defaults, the config file and the
+ * environment. Throws a ConfigError if anything is invalid.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const config: ServerConfig = structuredClone(DEFAULT_CONFIG);
+  const problems: string[] = [];
+
+  // A missing file is only an error if one was asked for
+  const configPath = env.CONFIG_PATH || DEFAULT_CONFIG_PATH;
+  if (env.CONFIG_PATH || existsSync(configPath)) {
+    let file: unknown;
+    try {
+      file = JSON.parse(readFileSync(configPath, 'utf-8'));
+    } catch (e) {
+      throw new ConfigError([`${configPath}: ${(e as Error).message}`]);
+    }
+    merge(config as unknown as Record<string, unknown>, file, '', problems);
+  }
+
+  const fromEnv = new Map<string, string>(); // setting path -> variable, for error messages
+  for (const { name, path, parse } of ENV_OVERRIDES) {
+    const value = env[name];
+    if (value === undefined || value === '') continue;
+    try {
+      setPath(config, path, parse(value));
+      fromEnv.set(path, name);
+    } catch (e) {
+      problems.push(`${name}: ${(e as Error).message}`);
+    }
+  }
+
+  for (const [path, check] of Object.entries(CHECKS)) {
+    const problem = check(getPath(config, path));
+    if (problem) {
+      const source = fromEnv.get(path);
+      problems.push(`${path}${source ? ` (from ${source})` : ''}: ${problem}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return config;
+}
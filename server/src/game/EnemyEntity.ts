@@ -1,5 +1,6 @@
 import { Enemy, Vec2, ENEMIES, EnemyDefinition, EnemyAttack, EnemyPhase } from '@rotmg/shared';
 import { Entity, normalizeVec2, vec2Sub, vec2Length } from './Entity.js';
+import { secondsToTicks } from './GameLoop.js';
 import { Instance } from '../instances/Instance.js';
 import { PlayerEntity } from './PlayerEntity.js';
 
@@ -13,7 +14,7 @@ export class EnemyEntity extends Entity implements Enemy {
 
   // AI state
   private targetPlayer: PlayerEntity | null = null;
-  private lastAttackTimes: number[] = [];
+  private attackCooldowns: number[] = []; // ticks until each attack can fire again
   private wanderTarget: Vec2 | null = null;
   private wanderTimer: number = 0;
   private orbitAngle: number = 0;
@@ -36,8 +37,8 @@ export class EnemyEntity extends Entity implements Enemy {
     this.hp = def.hp;
     this.maxHp = def.hp;
     this.instance = instance;
-    this.lastAttackTimes = def.attacks.map(() => 0);
-    this.orbitAngle = Math.random() * Math.PI * 2;
+    this.attackCooldowns = def.attacks.map(() => 0);
+    this.orbitAngle = instance.random.ai.next() * Math.PI * 2;
   }
 
   update(deltaTime: number): void {
@@ -52,6 +53,11 @@ export class EnemyEntity extends Entity implements Enemy {
       this.updatePhase(deltaTime);
     }
 
+    // Cooldowns run down during rest periods too
+    for (let i = 0; i < this.attackCooldowns.length; i++) {
+      this.attackCooldowns[i]--;
+    }
+
     // Try to attack (respects phase rest periods)
     this.tryAttack();
   }
@@ -115,6 +121,7 @@ export class EnemyEntity extends Entity implements Enemy {
     let closestDist = Infinity;
 
     for (const player of players) {
+      if (player.detached) continue;
       const dist = this.distanceTo(player);
       if (dist < closestDist) {
         closestDist = dist;
@@ -151,10 +158,10 @@ export class EnemyEntity extends Entity implements Enemy {
       // Pick new wander target
       const range = 3;
       this.wanderTarget = {
-        x: this.position.x + (Math.random() - 0.5) * range * 2,
-        y: this.position.y + (Math.random() - 0.5) * range * 2,
+        x: this.position.x + (this.instance.random.ai.next() - 0.5) * range * 2,
+        y: this.position.y + (this.instance.random.ai.next() - 0.5) * range * 2,
       };
-      this.wanderTimer = 2 + Math.random() * 3;
+      this.wanderTimer = 2 + this.instance.random.ai.next() * 3;
     }
 
     // Move toward wander target
@@ -240,7 +247,6 @@ export class EnemyEntity extends Entity implements Enemy {
       return;
     }
 
-    const now = Date.now();
     const dist = this.distanceTo(this.targetPlayer);
 
     for (let i = 0; i < this.definition.attacks.length; i++) {
@@ -250,12 +256,9 @@ export class EnemyEntity extends Entity implements Enemy {
       }
 
       const attack = this.definition.attacks[i];
-      const lastAttack = this.lastAttackTimes[i];
-      const fireInterval = 1000 / attack.rateOfFire;
-
-      if (now - lastAttack >= fireInterval && dist <= attack.range) {
+      if (this.attackCooldowns[i] <= 0 && dist <= attack.range) {
         this.fireAttack(attack, i);
-        this.lastAttackTimes[i] = now;
+        this.attackCooldowns[i] = secondsToTicks(1 / attack.rateOfFire);
       }
     }
   }
@@ -282,7 +285,7 @@ export class EnemyEntity extends Entity implements Enemy {
     }
 
     // Calculate damage
-    const damage = attack.damage[0] + Math.random() * (attack.damage[1] - attack.damage[0]);
+    const damage = attack.damage[0] + this.instance.random.combat.next() * (attack.damage[1] - attack.damage[0]);
 
     // Spawn projectiles
     const arcGapRad = (attack.arcGap * Math.PI) / 180;
@@ -1,17 +1,60 @@
 import { Instance } from '../instances/Instance.js';
+import {
+  HistogramSnapshot,
+  TICK_DURATION_BUCKETS,
+  createHistogramSnapshot,
+  observeHistogram,
+} from '../metrics/Metrics.js';
+import { LogFields, logger } from '../logging/Logger.js';
+
+// The simulation always advances in steps of this size. Gameplay timers
+// (cooldowns, buffs, lifetimes) count these ticks rather than reading the
+// wall clock, so they keep pace with the simulation when the server is slow.
+export let TICK_RATE = 20; // ticks per second
+export let TICK_SECONDS = 1 / TICK_RATE;
+let TICK_MS = 1000 / TICK_RATE;
+
+// Set from the config at startup, on each thread, before any loop starts
+export function setTickRate(ticksPerSecond: number): void {
+  TICK_RATE = ticksPerSecond;
+  TICK_SECONDS = 1 / ticksPerSecond;
+  TICK_MS = 1000 / ticksPerSecond;
+}
+
+// Most ticks run back to back to catch up after a stall. Time missed beyond
+// that is dropped rather than fast-forwarding the world.
+const MAX_CATCH_UP_TICKS = 5;
+
+// Timers fire up to a millisecond or so late, so the loop sleeps until this
+// close to the next tick and spins the rest of the way (ms). Sleeping keeps an
+// idle shard from holding a core.
+const SPIN_MS = 1;
+
+// Ticks over budget are logged at most this often, with a count of the rest
+const OVERRUN_WARNING_INTERVAL_MS = 5000;
+
+// Whole ticks covering a duration, so a timer never ends early
+export function secondsToTicks(seconds: number): number {
+  return Math.ceil(seconds * TICK_RATE - 1e-9);
+}
+
+// Tenths of a millisecond are plenty for a log line
+function round(ms: number): number {
+  return Math.round(ms * 10) / 10;
+}
 
 export class GameLoop {
   private instances: Map<string, Instance> = new Map();
-  private tickRate: number;
-  private tickInterval: number;
-  private lastTick: number = 0;
+  private lastTime: number = 0;
+  private accumulated: number = 0; // ms of wall time not yet simulated
   private running: boolean = false;
   private tick: number = 0;
-
-  constructor(tickRate: number = 20) {
-    this.tickRate = tickRate;
-    this.tickInterval = 1000 / tickRate;
-  }
+  private lastTickAt: number | null = null; // performance.now() when the last tick ended
+  private skippedTicks: number = 0;
+  private overruns: number = 0;
+  private unreportedOverruns: number = 0;
+  private lastOverrunWarning: number = -Infinity;
+  private tickDurations: HistogramSnapshot = createHistogramSnapshot(TICK_DURATION_BUCKETS); // seconds
 
   addInstance(instance: Instance): void {
     this.instances.set(instance.id, instance);
@@ -32,42 +75,119 @@ export class GameLoop {
   start(): void {
     if (this.running) return;
     this.running = true;
-    this.lastTick = Date.now();
+    this.lastTime = performance.now();
+    this.accumulated = 0;
     this.gameLoop();
-    console.log(`Game loop started at ${this.tickRate} ticks/second`);
+    logger.info('Game loop started', { tickRate: TICK_RATE });
   }
 
   stop(): void {
     this.running = false;
-    console.log('Game loop stopped');
+    logger.info('Game loop stopped');
   }
 
   private gameLoop(): void {
     if (!this.running) return;
 
-    const now = Date.now();
-    const elapsed = now - this.lastTick;
+    const now = performance.now();
+    this.accumulated += now - this.lastTime;
+    this.lastTime = now;
+
+    let steps = 0;
+    while (this.accumulated >= TICK_MS && steps < MAX_CATCH_UP_TICKS) {
+      this.step();
+      this.accumulated -= TICK_MS;
+      steps++;
+    }
 
-    if (elapsed >= this.tickInterval) {
-      const deltaTime = elapsed / 1000; // Convert to seconds
-      this.tick++;
-      this.lastTick = now - (elapsed % this.tickInterval);
+    if (this.accumulated >= TICK_MS) {
+      const skipped = Math.floor(this.accumulated / TICK_MS);
+      this.accumulated -= skipped * TICK_MS;
+      this.skippedTicks += skipped;
+      logger.warn('Game loop fell behind', { skippedTicks: skipped });
+    }
 
-      // Update all instances
-      for (const instance of this.instances.values()) {
-        instance.update(deltaTime, this.tick);
+    // Schedule the next step for when it is due
+    const wait = TICK_MS - this.accumulated - SPIN_MS;
+    if (wait >= 1) {
+      setTimeout(() => this.gameLoop(), wait);
+    } else {
+      setImmediate(() => this.gameLoop());
+    }
+  }
+
+  private step(): void {
+    this.tick++;
+    const started = performance.now();
+    let slowest: Instance | null = null;
+    let slowestMs = 0;
+
+    // Update all instances
+    for (const instance of this.instances.values()) {
+      const instanceStarted = performance.now();
+      instance.update(TICK_SECONDS, this.tick);
+      const instanceMs = performance.now() - instanceStarted;
+      if (instanceMs > slowestMs) {
+        slowest = instance;
+        slowestMs = instanceMs;
       }
     }
 
-    // Schedule next frame
-    setImmediate(() => this.gameLoop());
+    this.lastTickAt = performance.now();
+    const elapsed = this.lastTickAt - started;
+    observeHistogram(this.tickDurations, elapsed / 1000);
+    if (elapsed > TICK_MS) {
+      this.reportOverrun(elapsed, slowest, slowestMs);
+    }
+  }
+
+  private reportOverrun(elapsed: number, slowest: Instance | null, slowestMs: number): void {
+    this.overruns++;
+    this.unreportedOverruns++;
+
+    const now = performance.now();
+    if (now - this.lastOverrunWarning < OVERRUN_WARNING_INTERVAL_MS) return;
+
+    const fields: LogFields = { tick: this.tick, tickMs: round(elapsed), budgetMs: TICK_MS };
+    if (slowest) {
+      fields.instanceId = slowest.id;
+      fields.instanceMs = round(slowestMs);
+      fields.phases = Object.fromEntries(
+        slowest.profiler
+          .lastTickPhases()
+          .slice(0, 3)
+          .map(([phase, ms]) => [phase, round(ms)])
+      );
+    }
+    if (this.unreportedOverruns > 1) {
+      fields.overrunsSinceLastWarning = this.unreportedOverruns;
+    }
+    logger.warn('Tick over budget', fields);
+
+    this.lastOverrunWarning = now;
+    this.unreportedOverruns = 0;
   }
 
   getTick(): number {
     return this.tick;
   }
 
-  getTickRate(): number {
-    return this.tickRate;
+  // For health checks: a loop that has stopped or hung stops ticking
+  getMsSinceLastTick(): number | null {
+    return this.lastTickAt === null ? null : performance.now() - this.lastTickAt;
+  }
+
+  // Ticks dropped because the loop fell too far behind to catch up
+  getSkippedTicks(): number {
+    return this.skippedTicks;
+  }
+
+  // Ticks that took longer than their budget
+  getOverruns(): number {
+    return this.overruns;
+  }
+
+  getTickDurations(): HistogramSnapshot {
+    return this.tickDurations;
   }
 }
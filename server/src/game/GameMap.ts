@@ -1,10 +1,24 @@
-import { MapData, TileType, SpawnRegion, Vec2, DUNGEONS, DungeonDefinition } from '@rotmg/shared';
+import {
+  MapData,
+  TileType,
+  SpawnRegion,
+  Vec2,
+  DUNGEONS,
+  DungeonDefinition,
+  isWalkableAt,
+  canMoveTo,
+  MapChunk,
+  createMapChunks,
+} from '@rotmg/shared';
+import { Random } from './Random.js';
 
 export class GameMap {
   width: number;
   height: number;
   tiles: TileType[];
   spawnRegions: SpawnRegion[];
+  // Encoded chunks for map streaming, rebuilt after any tile change
+  private chunkCache: MapChunk[] | null = null;
 
   constructor(data: MapData) {
     this.width = data.width;
@@ -27,34 +41,27 @@ export class GameMap {
     const ty = Math.floor(y);
     if (tx >= 0 && tx < this.width && ty >= 0 && ty < this.height) {
       this.tiles[ty * this.width + tx] = tile;
+      this.chunkCache = null;
     }
   }
 
+  getChunks(instanceId: string): MapChunk[] {
+    if (!this.chunkCache) {
+      this.chunkCache = createMapChunks(instanceId, this.width, this.height, this.tiles);
+    }
+    return this.chunkCache;
+  }
+
+  // Collision rules live in @rotmg/shared so client prediction matches
   isWalkable(x: number, y: number): boolean {
-    const tile = this.getTile(x, y);
-    return tile === TileType.FLOOR || tile === TileType.SPAWN || tile === TileType.BOSS_FLOOR;
+    return isWalkableAt(this, x, y);
   }
 
   canMoveTo(x: number, y: number, radius: number): boolean {
-    // Check corners and center for collision
-    const checkPoints = [
-      { x, y },
-      { x: x - radius, y: y - radius },
-      { x: x + radius, y: y - radius },
-      { x: x - radius, y: y + radius },
-      { x: x + radius, y: y + radius },
-    ];
-
-    for (const point of checkPoints) {
-      if (!this.isWalkable(point.x, point.y)) {
-        return false;
-      }
-    }
-
-    return true;
+    return canMoveTo(this, x, y, radius);
   }
 
-  findSpawnPosition(): Vec2 {
+  findSpawnPosition(random: Random): Vec2 {
     // First, collect all SPAWN tiles
     const spawnTiles: Vec2[] = [];
     for (let y = 0; y < this.height; y++) {
@@ -67,7 +74,7 @@ export class GameMap {
 
     // If we found spawn tiles, pick a random one
     if (spawnTiles.length > 0) {
-      return spawnTiles[Math.floor(Math.random() * spawnTiles.length)];
+      return spawnTiles[Math.floor(random.next() * spawnTiles.length)];
     }
 
     // Fallback: find any regular floor tile (not BOSS_FLOOR)
@@ -82,10 +89,10 @@ export class GameMap {
     return { x: this.width / 2, y: this.height / 2 };
   }
 
-  findRandomPositionInRegion(region: SpawnRegion): Vec2 | null {
+  findRandomPositionInRegion(region: SpawnRegion, random: Random): Vec2 | null {
     for (let attempts = 0; attempts < 20; attempts++) {
-      const x = region.x + Math.random() * region.width;
-      const y = region.y + Math.random() * region.height;
+      const x = region.x + random.next() * region.width;
+      const y = region.y + random.next() * region.height;
       // Only spawn on FLOOR or BOSS_FLOOR tiles, not SPAWN tiles (player spawn area)
       const tile = this.getTile(x, y);
       if (tile === TileType.FLOOR || tile === TileType.BOSS_FLOOR) {
@@ -135,7 +142,7 @@ export class GameMap {
     });
   }
 
-  static createRealmMap(): GameMap {
+  static createRealmMap(random: Random): GameMap {
     const width = 100;
     const height = 100;
     const tiles: TileType[] = new Array(width * height).fill(TileType.FLOOR);
@@ -152,9 +159,9 @@ export class GameMap {
 
     // Add some random walls/obstacles
     for (let i = 0; i < 200; i++) {
-      const x = Math.floor(5 + Math.random() * (width - 10));
-      const y = Math.floor(5 + Math.random() * (height - 10));
-      const size = Math.floor(1 + Math.random() * 3);
+      const x = Math.floor(5 + random.next() * (width - 10));
+      const y = Math.floor(5 + random.next() * (height - 10));
+      const size = Math.floor(1 + random.next() * 3);
 
       for (let dy = 0; dy < size; dy++) {
         for (let dx = 0; dx < size; dx++) {
@@ -214,7 +221,7 @@ export class GameMap {
     });
   }
 
-  static createDungeonMap(dungeonType: string = 'demon_lair'): DungeonMapResult {
+  static createDungeonMap(random: Random, dungeonType: string = 'demon_lair'): DungeonMapResult {
     const dungeonDef = DUNGEONS[dungeonType] || DUNGEONS['demon_lair'];
     const width = dungeonDef.mapSize;
     const height = dungeonDef.mapSize;
@@ -244,7 +251,7 @@ export class GameMap {
 
     // Generate rooms using branching algorithm
     const [minRooms, maxRooms] = dungeonDef.roomCount;
-    const targetRooms = minRooms + Math.floor(Math.random() * (maxRooms - minRooms + 1));
+    const targetRooms = minRooms + Math.floor(random.next() * (maxRooms - minRooms + 1));
 
     // Directions: right, down, up (prefer forward progression)
     const directions = [
@@ -258,11 +265,11 @@ export class GameMap {
       attempts++;
 
       // Pick a random existing room to branch from
-      const sourceIdx = Math.floor(Math.random() * rooms.length);
+      const sourceIdx = Math.floor(random.next() * rooms.length);
       const source = rooms[sourceIdx];
 
       // Pick a direction weighted toward right
-      const rand = Math.random();
+      const rand = random.next();
       let dir = directions[0];
       let cumWeight = 0;
       for (const d of directions) {
@@ -274,20 +281,20 @@ export class GameMap {
       }
 
       // Calculate new room position
-      const roomW = 8 + Math.floor(Math.random() * 6);
-      const roomH = 8 + Math.floor(Math.random() * 6);
-      const gap = 6 + Math.floor(Math.random() * 6); // corridor length
+      const roomW = 8 + Math.floor(random.next() * 6);
+      const roomH = 8 + Math.floor(random.next() * 6);
+      const gap = 6 + Math.floor(random.next() * 6); // corridor length
 
       let newX: number, newY: number;
       if (dir.dx !== 0) {
         // Horizontal direction
         newX = dir.dx > 0 ? source.x + source.w + gap : source.x - roomW - gap;
         newY = source.y + Math.floor(source.h / 2) - Math.floor(roomH / 2) +
-               Math.floor((Math.random() - 0.5) * 4);
+               Math.floor((random.next() - 0.5) * 4);
       } else {
         // Vertical direction
         newX = source.x + Math.floor(source.w / 2) - Math.floor(roomW / 2) +
-               Math.floor((Math.random() - 0.5) * 4);
+               Math.floor((random.next() - 0.5) * 4);
         newY = dir.dy > 0 ? source.y + source.h + gap : source.y - roomH - gap;
       }
 
@@ -436,7 +443,7 @@ export class GameMap {
           width: room.w,
           height: room.h,
           enemyTypes: [...dungeonDef.minionIds, ...dungeonDef.guardianIds],
-          maxEnemies: 4 + Math.floor(Math.random() * 3),
+          maxEnemies: 4 + Math.floor(random.next() * 3),
           spawnRate: 0.3,
         });
       }
@@ -1,19 +1,23 @@
 import { Loot, Vec2 } from '@rotmg/shared';
 import { Entity } from './Entity.js';
+import { secondsToTicks } from './GameLoop.js';
+
+// Lifetime a bag gets back whenever an item is added to it
+const BAG_LIFETIME = 60; // seconds
 
 export class LootEntity extends Entity implements Loot {
   type: 'loot' = 'loot';
   itemId: string;
   items: string[]; // Support multiple items in a bag
-  despawnTime: number;
+  despawnTicks: number; // ticks left before the bag disappears
   ownerId: string | null; // Player who owns soulbound bag (only they can see/pickup)
   soulbound: boolean; // If true, only ownerId can see and pickup this bag
 
-  constructor(itemId: string, position: Vec2, lifetime: number = 60, ownerId: string | null = null, soulbound: boolean = false) {
+  constructor(itemId: string, position: Vec2, lifetime: number = BAG_LIFETIME, ownerId: string | null = null, soulbound: boolean = false) {
     super(position, 0.3);
     this.itemId = itemId;
     this.items = [itemId];
-    this.despawnTime = Date.now() + lifetime * 1000;
+    this.despawnTicks = secondsToTicks(lifetime);
     this.ownerId = ownerId;
     this.soulbound = soulbound;
   }
@@ -22,7 +26,7 @@ export class LootEntity extends Entity implements Loot {
     if (this.items.length >= 8) return false; // Max 8 items per bag
     this.items.push(itemId);
     // Reset despawn timer when items are added
-    this.despawnTime = Date.now() + 60 * 1000;
+    this.despawnTicks = secondsToTicks(BAG_LIFETIME);
     return true;
   }
 
@@ -39,7 +43,7 @@ export class LootEntity extends Entity implements Loot {
   }
 
   update(deltaTime: number): void {
-    if (Date.now() >= this.despawnTime) {
+    if (--this.despawnTicks <= 0) {
       this.remove();
     }
   }
@@ -7,14 +7,65 @@ import {
   ARMORS,
   RINGS,
   getExpForLevel,
-  getStarterEquipment,
   MAX_LEVEL,
   PLAYER_RADIUS,
+  MAX_INPUT_DURATION,
   Character,
   PlayerDeathStats,
+  ProtocolFeature,
+  stepMovement,
 } from '@rotmg/shared';
-import { Entity, normalizeVec2 } from './Entity.js';
+import { Entity } from './Entity.js';
+import { secondsToTicks } from './GameLoop.js';
 import { Instance } from '../instances/Instance.js';
+import { SnapshotHistory } from '../network/SnapshotHistory.js';
+import { Teleport, TeleportReason } from './PositionIntegrity.js';
+
+// Inputs waiting to be simulated; older ones are dropped beyond this. Holds
+// a few seconds of inputs, which arrive together after a stalled connection.
+const MAX_QUEUED_INPUTS = 128;
+// Most movement time a player can bank while inputs are delayed (seconds)
+const MAX_MOVEMENT_BUDGET = MAX_INPUT_DURATION * 2;
+// A backlog of inputs is simulated this many times faster than real time
+// until it is worked off
+const BACKLOG_CATCH_UP_RATE = 2;
+// How far the movement received may run ahead of the wall clock, for clock
+// drift between client and server (ms)
+const INPUT_CLOCK_TOLERANCE_MS = 1000;
+// Most movement time a client can bank by sending none, so idling can't buy
+// a long stretch of double speed later (ms). Covers a long stall.
+const MAX_INPUT_CREDIT_MS = 30_000;
+// The client draws other entities trailing their latest snapshot by about
+// this much (SimpleRenderer interpolation)
+const CLIENT_INTERPOLATION_DELAY_MS = 70;
+
+// Everything that travels with a player moving to an instance on another
+// shard. Position is left out since the receiving instance picks the spawn.
+export interface PlayerState {
+  character: Character;
+  accountId: string;
+  protocolFeatures: ProtocolFeature[];
+  detached: boolean;
+  lastHitTime: number;
+  lastInput: PlayerInput | null;
+  lastReceivedInput: number;
+  lastProcessedInput: number;
+  inputClock: number;
+  shotCharge: number;
+  abilityCooldown: number;
+  abilityReadyAt: number;
+  hpRegenAccum: number;
+  mpRegenAccum: number;
+  activeBuffs: { stat: string; amount: number; ticksLeft: number }[];
+  sessionStartTime: number;
+  totalXpGained: number;
+  enemiesKilled: number;
+  damageDealt: number;
+  damageTaken: number;
+  shotsFired: number;
+  abilitiesUsed: number;
+  dungeonsClearedCount: number;
+}
 
 export class PlayerEntity extends Entity implements Player {
   type: 'player' = 'player';
@@ -40,16 +91,43 @@ export class PlayerEntity extends Entity implements Player {
   accountId: string;
   characterId: string;
   lastInput: PlayerInput | null = null;
-  lastShootTime: number = 0;
-  lastAbilityTime: number = 0;
   instance: Instance | null = null;
+  snapshotHistory: SnapshotHistory = new SnapshotHistory();
+  // Set while the connection is gone and the character is held for a resume;
+  // the player is frozen and can't be hurt or targeted
+  detached: boolean = false;
+  // Features negotiated with this player's client
+  protocolFeatures: ReadonlySet<ProtocolFeature> = new Set();
+  // Sequence number of the last input whose movement has been applied
+  lastProcessedInput: number = 0;
+
+  // Movement inputs are applied in order, each only once enough simulated
+  // time has passed to cover it, so sending inputs faster gains no speed
+  private inputQueue: PlayerInput[] = [];
+  private lastReceivedInput: number = 0;
+  private movementBudget: number = 0;
+  // Wall-clock time (ms) the movement received so far reaches. Inputs can
+  // arrive in bursts, but in total can't cover more time than has passed.
+  private inputClock: number = Date.now();
+
+  // Shots and abilities are paced in simulated time, which only advances
+  // with ticks, so client clock tricks can't fire faster
+  private shotCharge: number = 1; // a shot is ready at 1
+  private abilityCooldown: number = 0; // seconds left
+  // When the cooldown ends by the wall clock, which the client goes by; ticks
+  // the loop drops under load make the simulated cooldown run long
+  private abilityReadyAt: number = 0;
+
+  // Movement since the position integrity check last looked, see PositionIntegrity
+  private movementTime: number = 0;
+  private teleports: Teleport[] = [];
 
   // Regen timers
   private hpRegenAccum: number = 0;
   private mpRegenAccum: number = 0;
 
-  // Active buffs: { stat: string, amount: number, endTime: number }
-  private activeBuffs: { stat: string; amount: number; endTime: number }[] = [];
+  // Active buffs: { stat: string, amount: number, ticksLeft: number }
+  private activeBuffs: { stat: string; amount: number; ticksLeft: number }[] = [];
 
   // Session statistics (tracked for death screen)
   sessionStartTime: number = Date.now();
@@ -81,42 +159,15 @@ export class PlayerEntity extends Entity implements Player {
     this.wisdom = character.wisdom;
     this.equipment = [...character.equipment];
     this.inventory = [...character.inventory];
-
-    // Migration: ensure old characters have starter equipment
-    const starterEquipment = getStarterEquipment(character.classId);
-    for (let i = 0; i < starterEquipment.length; i++) {
-      if (this.equipment[i] === null && starterEquipment[i] !== null) {
-        this.equipment[i] = starterEquipment[i];
-      }
-    }
   }
 
   update(deltaTime: number): void {
     // Remove expired buffs
-    const now = Date.now();
-    this.activeBuffs = this.activeBuffs.filter(buff => buff.endTime > now);
-
-    // Apply movement from last input
-    if (this.lastInput && this.instance) {
-      const moveDir = normalizeVec2(this.lastInput.moveDirection);
-      const moveSpeed = this.getEffectiveSpeed();
-
-      const newX = this.position.x + moveDir.x * moveSpeed * deltaTime;
-      const newY = this.position.y + moveDir.y * moveSpeed * deltaTime;
-
-      // Check collision with map
-      if (this.instance.map.canMoveTo(newX, newY, this.radius)) {
-        this.position.x = newX;
-        this.position.y = newY;
-      } else {
-        // Try sliding along walls
-        if (this.instance.map.canMoveTo(newX, this.position.y, this.radius)) {
-          this.position.x = newX;
-        } else if (this.instance.map.canMoveTo(this.position.x, newY, this.radius)) {
-          this.position.y = newY;
-        }
-      }
-    }
+    this.activeBuffs = this.activeBuffs.filter(buff => --buff.ticksLeft > 0);
+
+    this.applyQueuedInputs(deltaTime);
+    this.shotCharge = Math.min(1, this.shotCharge + this.getFireRate() * deltaTime);
+    this.abilityCooldown = Math.max(0, this.abilityCooldown - deltaTime);
 
     // HP regeneration (vitality based)
     const effectiveMaxHp = this.getEffectiveMaxHp();
@@ -141,20 +192,110 @@ export class PlayerEntity extends Entity implements Player {
     }
   }
 
-  processInput(input: PlayerInput): void {
+  // Returns false, dropping the input's movement, if the client has sent
+  // more movement than real time allows
+  processInput(input: PlayerInput): boolean {
+    // Ignore duplicated or reordered inputs
+    if (input.seq <= this.lastReceivedInput) return true;
+    this.lastReceivedInput = input.seq;
     this.lastInput = input;
+
+    const duration = Math.max(0, Math.min(input.duration, MAX_INPUT_DURATION));
+    const now = Date.now();
+    const clock = Math.max(this.inputClock, now - MAX_INPUT_CREDIT_MS) + duration * 1000;
+    if (clock > now + INPUT_CLOCK_TOLERANCE_MS) return false;
+    this.inputClock = clock;
+
+    this.inputQueue.push({ ...input, duration });
+    if (this.inputQueue.length > MAX_QUEUED_INPUTS) {
+      this.inputQueue.shift();
+    }
+    return true;
   }
 
-  canShoot(): boolean {
+  clearQueuedInputs(): void {
+    this.inputQueue = [];
+    this.movementBudget = 0;
+  }
+
+  private applyQueuedInputs(deltaTime: number): void {
+    let queued = 0;
+    for (const input of this.inputQueue) {
+      queued += input.duration;
+    }
+    const rate = queued > MAX_MOVEMENT_BUDGET ? BACKLOG_CATCH_UP_RATE : 1;
+    this.movementBudget = Math.min(MAX_MOVEMENT_BUDGET, this.movementBudget + deltaTime * rate);
+    if (!this.instance) return;
+
+    const moveSpeed = this.getEffectiveSpeed();
+    while (this.inputQueue.length > 0 && this.inputQueue[0].duration <= this.movementBudget) {
+      const input = this.inputQueue.shift()!;
+      this.movementBudget -= input.duration;
+      const next = stepMovement(
+        this.instance.map,
+        this.position,
+        input.moveDirection,
+        moveSpeed,
+        input.duration,
+        this.radius
+      );
+      this.position.x = next.x;
+      this.position.y = next.y;
+      this.movementTime += input.duration;
+      this.lastProcessedInput = input.seq;
+    }
+  }
+
+  // The only sanctioned way to move a player other than walking
+  teleport(position: Vec2, reason: TeleportReason): void {
+    this.teleports.push({ reason, from: { ...this.position }, to: { ...position } });
+    this.position.x = position.x;
+    this.position.y = position.y;
+  }
+
+  takeMovementRecord(): { movementTime: number; teleports: Teleport[] } {
+    const record = { movementTime: this.movementTime, teleports: this.teleports };
+    this.movementTime = 0;
+    this.teleports = [];
+    return record;
+  }
+
+  // Estimated age (ms) of the world state this player is currently looking at
+  getViewDelay(): number {
+    return this.snapshotHistory.getRoundTripTime() / 2 + CLIENT_INTERPOLATION_DELAY_MS;
+  }
+
+  // Shots per second
+  getFireRate(): number {
     const weapon = this.getWeapon();
-    if (!weapon) return false;
+    if (!weapon) return 0;
 
-    const now = Date.now();
     // Dexterity increases attack speed: each point adds ~1.5% attack speed
     const dexMultiplier = 1 + (this.getEffectiveDexterity() * 0.015);
-    const effectiveRateOfFire = weapon.rateOfFire * dexMultiplier;
-    const fireInterval = 1000 / effectiveRateOfFire;
-    return now - this.lastShootTime >= fireInterval;
+    return weapon.rateOfFire * dexMultiplier;
+  }
+
+  canShoot(): boolean {
+    // Small tolerance so float accumulation doesn't cost a whole tick
+    return this.getFireRate() > 0 && this.shotCharge >= 1 - 1e-6;
+  }
+
+  consumeShot(): void {
+    this.shotCharge = Math.max(0, this.shotCharge - 1);
+  }
+
+  getAbilityCooldown(): number {
+    return this.abilityCooldown;
+  }
+
+  // Seconds until the cooldown ends by the wall clock
+  getAbilityCooldownWallTime(): number {
+    return Math.max(0, (this.abilityReadyAt - Date.now()) / 1000);
+  }
+
+  startAbilityCooldown(seconds: number): void {
+    this.abilityCooldown = seconds;
+    this.abilityReadyAt = Date.now() + seconds * 1000;
   }
 
   getEffectiveDexterity(): number {
@@ -221,8 +362,7 @@ export class PlayerEntity extends Entity implements Player {
   }
 
   addBuff(stat: string, amount: number, duration: number): void {
-    const endTime = Date.now() + duration * 1000;
-    this.activeBuffs.push({ stat, amount, endTime });
+    this.activeBuffs.push({ stat, amount, ticksLeft: secondsToTicks(duration) });
   }
 
   getBuffBonus(stat: string): number {
@@ -376,6 +516,60 @@ export class PlayerEntity extends Entity implements Player {
     };
   }
 
+  toState(): PlayerState {
+    return {
+      character: this.toCharacterData(),
+      accountId: this.accountId,
+      protocolFeatures: [...this.protocolFeatures],
+      detached: this.detached,
+      lastHitTime: this.lastHitTime,
+      lastInput: this.lastInput,
+      lastReceivedInput: this.lastReceivedInput,
+      lastProcessedInput: this.lastProcessedInput,
+      inputClock: this.inputClock,
+      shotCharge: this.shotCharge,
+      abilityCooldown: this.abilityCooldown,
+      abilityReadyAt: this.abilityReadyAt,
+      hpRegenAccum: this.hpRegenAccum,
+      mpRegenAccum: this.mpRegenAccum,
+      activeBuffs: this.activeBuffs.map((buff) => ({ ...buff })),
+      sessionStartTime: this.sessionStartTime,
+      totalXpGained: this.totalXpGained,
+      enemiesKilled: this.enemiesKilled,
+      damageDealt: this.damageDealt,
+      damageTaken: this.damageTaken,
+      shotsFired: this.shotsFired,
+      abilitiesUsed: this.abilitiesUsed,
+      dungeonsClearedCount: this.dungeonsClearedCount,
+    };
+  }
+
+  static fromState(state: PlayerState): PlayerEntity {
+    const player = new PlayerEntity(state.character, state.accountId);
+    player.protocolFeatures = new Set(state.protocolFeatures);
+    player.detached = state.detached;
+    player.lastHitTime = state.lastHitTime;
+    player.lastInput = state.lastInput;
+    player.lastReceivedInput = state.lastReceivedInput;
+    player.lastProcessedInput = state.lastProcessedInput;
+    player.inputClock = state.inputClock;
+    player.shotCharge = state.shotCharge;
+    player.abilityCooldown = state.abilityCooldown;
+    player.abilityReadyAt = state.abilityReadyAt;
+    player.hpRegenAccum = state.hpRegenAccum;
+    player.mpRegenAccum = state.mpRegenAccum;
+    player.activeBuffs = state.activeBuffs;
+    player.sessionStartTime = state.sessionStartTime;
+    player.totalXpGained = state.totalXpGained;
+    player.enemiesKilled = state.enemiesKilled;
+    player.damageDealt = state.damageDealt;
+    player.damageTaken = state.damageTaken;
+    player.shotsFired = state.shotsFired;
+    player.abilitiesUsed = state.abilitiesUsed;
+    player.dungeonsClearedCount = state.dungeonsClearedCount;
+    return player;
+  }
+
   canPickupItem(slot: number): boolean {
     // Check if there's an empty inventory slot
     return this.inventory.some((item) => item === null);
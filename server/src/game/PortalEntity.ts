@@ -1,5 +1,6 @@
 import { Portal, Vec2 } from '@rotmg/shared';
 import { Entity } from './Entity.js';
+import { secondsToTicks } from './GameLoop.js';
 
 export class PortalEntity extends Entity implements Portal {
   type: 'portal' = 'portal';
@@ -8,7 +9,7 @@ export class PortalEntity extends Entity implements Portal {
   name: string;
 
   // Expiration support for dungeon portals
-  expiresAt: number | null = null;
+  ticksLeft: number | null = null;
   visible: boolean = true;
 
   constructor(
@@ -24,16 +25,15 @@ export class PortalEntity extends Entity implements Portal {
     this.name = name;
 
     if (lifetime !== undefined) {
-      this.expiresAt = Date.now() + lifetime * 1000;
+      this.ticksLeft = secondsToTicks(lifetime);
     }
   }
 
   update(deltaTime: number): void {
-    if (this.expiresAt !== null) {
-      const now = Date.now();
-      const timeLeft = this.expiresAt - now;
+    if (this.ticksLeft !== null) {
+      const ticksLeft = --this.ticksLeft;
 
-      if (timeLeft <= 0) {
+      if (ticksLeft <= 0) {
         this.remove();
         return;
       }
@@ -42,15 +42,15 @@ export class PortalEntity extends Entity implements Portal {
       // Last 30 seconds: start blinking
       // Last 10 seconds: fast blinking
       // Last 3 seconds: very fast blinking
-      if (timeLeft < 3000) {
+      if (ticksLeft < secondsToTicks(3)) {
         // Very fast blinking (every 100ms)
-        this.visible = Math.floor(now / 100) % 2 === 0;
-      } else if (timeLeft < 10000) {
+        this.visible = Math.floor(ticksLeft / secondsToTicks(0.1)) % 2 === 0;
+      } else if (ticksLeft < secondsToTicks(10)) {
         // Fast blinking (every 250ms)
-        this.visible = Math.floor(now / 250) % 2 === 0;
-      } else if (timeLeft < 30000) {
+        this.visible = Math.floor(ticksLeft / secondsToTicks(0.25)) % 2 === 0;
+      } else if (ticksLeft < secondsToTicks(30)) {
         // Slow blinking (every 500ms)
-        this.visible = Math.floor(now / 500) % 2 === 0;
+        this.visible = Math.floor(ticksLeft / secondsToTicks(0.5)) % 2 === 0;
       } else {
         this.visible = true;
       }
@@ -0,0 +1,57 @@
+import { Vec2 } from '@rotmg/shared';
+import { Entity } from './Entity.js';
+
+// How far back positions are kept; also the hard limit on any rewind
+export const POSITION_HISTORY_MS = 1000;
+
+interface PositionSample {
+  time: number;
+  positions: Map<string, Vec2>;
+}
+
+/**
+ * Recent per-tick positions of a set of entities, used to rewind collision
+ * checks to the moment a lagging player actually saw the world.
+ */
+export class PositionHistory {
+  private samples: PositionSample[] = [];
+
+  record(time: number, entities: Iterable<Entity>): void {
+    const positions = new Map<string, Vec2>();
+    for (const entity of entities) {
+      positions.set(entity.id, { x: entity.position.x, y: entity.position.y });
+    }
+    this.samples.push({ time, positions });
+
+    // Keep one sample older than the window so lookups at its edge can interpolate
+    while (this.samples.length > 2 && this.samples[1].time < time - POSITION_HISTORY_MS) {
+      this.samples.shift();
+    }
+  }
+
+  // Position of an entity at the given time, interpolated between ticks.
+  // Returns null if the entity wasn't recorded around that time.
+  getPosition(id: string, time: number): Vec2 | null {
+    if (this.samples.length === 0) return null;
+
+    // Walk back to the newest sample at or before the requested time
+    let index = this.samples.length - 1;
+    while (index > 0 && this.samples[index].time > time) {
+      index--;
+    }
+
+    const before = this.samples[index];
+    const after = this.samples[index + 1];
+    const from = before.positions.get(id);
+    const to = after?.positions.get(id);
+
+    if (!from || !to) return from ?? to ?? null;
+
+    const span = after.time - before.time;
+    const t = span > 0 ? Math.max(0, Math.min(1, (time - before.time) / span)) : 0;
+    return {
+      x: from.x + (to.x - from.x) * t,
+      y: from.y + (to.y - from.y) * t,
+    };
+  }
+}
@@ -0,0 +1,81 @@
+import { Vec2 } from '@rotmg/shared';
+import { PlayerEntity } from './PlayerEntity.js';
+
+// Legitimate ways for a player to jump instead of walk
+export type TeleportReason = 'portal' | 'ability' | 'admin';
+
+export interface Teleport {
+  reason: TeleportReason;
+  from: Vec2;
+  to: Vec2;
+}
+
+// A displacement that walking and sanctioned teleports can't account for
+export interface PositionAnomaly {
+  playerId: string;
+  playerName: string;
+  time: number;
+  from: Vec2;
+  to: Vec2;
+  distance: number;
+  allowed: number;
+}
+
+// Slack on top of the walkable distance, for float error and speed changes
+// (buffs, equipment swaps) partway through a tick
+const SPEED_TOLERANCE = 1.05;
+const DISTANCE_TOLERANCE = 0.05;
+
+/**
+ * Audits player movement within one instance. Each tick, a player's
+ * displacement must be covered by the movement time the server simulated for
+ * them plus any teleports made through PlayerEntity.teleport. Anything else
+ * means some code path moved the player without going through either.
+ */
+export class PositionIntegrity {
+  private lastPositions: Map<string, Vec2> = new Map();
+
+  // Returns the anomalies found this tick
+  check(players: Iterable<PlayerEntity>): PositionAnomaly[] {
+    const anomalies: PositionAnomaly[] = [];
+    const now = Date.now();
+
+    for (const player of players) {
+      const { movementTime, teleports } = player.takeMovementRecord();
+      const current = { x: player.position.x, y: player.position.y };
+      const last = this.lastPositions.get(player.id);
+      this.lastPositions.set(player.id, current);
+      if (!last) continue;
+
+      let allowed = player.getEffectiveSpeed() * movementTime * SPEED_TOLERANCE + DISTANCE_TOLERANCE;
+      for (const teleport of teleports) {
+        allowed += distance(teleport.from, teleport.to);
+      }
+
+      const moved = distance(last, current);
+      if (moved > allowed) {
+        anomalies.push({
+          playerId: player.id,
+          playerName: player.name,
+          time: now,
+          from: last,
+          to: current,
+          distance: moved,
+          allowed,
+        });
+      }
+    }
+
+    return anomalies;
+  }
+
+  forget(playerId: string): void {
+    this.lastPositions.delete(playerId);
+  }
+}
+
+function distance(a: Vec2, b: Vec2): number {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  return Math.sqrt(dx * dx + dy * dy);
+}
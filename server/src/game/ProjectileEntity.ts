@@ -1,5 +1,6 @@
 import { Projectile, Vec2 } from '@rotmg/shared';
 import { Entity, vec2FromAngle } from './Entity.js';
+import { TICK_SECONDS } from './GameLoop.js';
 
 export class ProjectileEntity extends Entity implements Projectile {
   type: 'projectile' = 'projectile';
@@ -7,11 +8,17 @@ export class ProjectileEntity extends Entity implements Projectile {
   ownerType: 'player' | 'enemy';
   definitionId: string;
   velocity: Vec2;
+  origin: Vec2;
   damage: number;
   piercing: boolean;
   lifetime: number;
-  spawnTime: number;
+  ageTicks: number = 0;
   hitEntities: Set<string> = new Set();
+  // How far back (ms) hits against enemies are checked, to match what the shooter saw
+  rewindMs: number = 0;
+  // Set when the projectile ran out of lifetime or hit a wall, which clients
+  // simulating it work out for themselves
+  expired: boolean = false;
 
   constructor(
     ownerId: string,
@@ -32,10 +39,10 @@ export class ProjectileEntity extends Entity implements Projectile {
       x: Math.cos(angle) * speed,
       y: Math.sin(angle) * speed,
     };
+    this.origin = { ...position };
     this.damage = damage;
     this.piercing = piercing;
     this.lifetime = lifetime;
-    this.spawnTime = Date.now();
   }
 
   update(deltaTime: number): void {
@@ -44,12 +51,22 @@ export class ProjectileEntity extends Entity implements Projectile {
     this.position.y += this.velocity.y * deltaTime;
 
     // Check lifetime
-    const age = (Date.now() - this.spawnTime) / 1000;
-    if (age >= this.lifetime) {
-      this.remove();
+    this.ageTicks++;
+    if (this.ageTicks * TICK_SECONDS >= this.lifetime) {
+      this.expire();
     }
   }
 
+  expire(): void {
+    this.expired = true;
+    this.remove();
+  }
+
+  // Seconds of flight left
+  getRemainingLifetime(): number {
+    return Math.max(0, this.lifetime - this.ageTicks * TICK_SECONDS);
+  }
+
   hasHit(entityId: string): boolean {
     return this.hitEntities.has(entityId);
   }
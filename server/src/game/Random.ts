@@ -0,0 +1,45 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Seeded pseudo-random number generator (mulberry32). Gameplay draws from
+ * these instead of Math.random, so a map and the rolls made in it can be
+ * reproduced from the seed they started from.
+ */
+export class Random {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // A generator for one purpose, so draws for one thing (say, enemies
+  // wandering) don't shift the sequence seen by another (loot)
+  static derive(seed: number, stream: string): Random {
+    let hash = seed >>> 0;
+    for (let i = 0; i < stream.length; i++) {
+      hash = Math.imul(hash ^ stream.charCodeAt(i), 0x01000193);
+    }
+    return new Random(hash);
+  }
+
+  // Uniform in [0, 1), like Math.random
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
+
+// A fresh seed for an instance that wasn't given one
+export function randomSeed(): number {
+  return randomBytes(4).readUInt32LE(0);
+}
+
+// Seeds are unsigned 32-bit integers; anything else isn't one
+export function parseSeed(value: string): number | null {
+  if (!/^\d+$/.test(value)) return null;
+  const seed = Number(value);
+  return seed <= 0xffffffff ? seed : null;
+}
@@ -0,0 +1,137 @@
+// Parts of Instance.update that are timed separately
+export const PROFILE_PHASES = ['entities', 'spatialHash', 'combat', 'spawns', 'cleanup', 'network'] as const;
+export type ProfilePhase = (typeof PROFILE_PHASES)[number];
+
+// Ticks kept for the rolling statistics, 10 seconds at 20 ticks/second
+const WINDOW_TICKS = 200;
+
+export interface Percentiles {
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export interface EntityCounts {
+  players: number;
+  enemies: number;
+  projectiles: number;
+  loot: number;
+}
+
+// Plain data, so it can be sent from a worker thread
+export interface InstanceProfile {
+  instanceId: string;
+  instanceType: string;
+  ticks: number; // ticks in the window
+  tickMs: Percentiles;
+  phaseMs: Record<ProfilePhase, Percentiles>;
+  bytesOut: Percentiles; // per tick
+  bytesPerSecond: number;
+  entities: EntityCounts; // as of the last tick
+}
+
+/**
+ * Per-instance timings over the last few seconds of ticks. Phases add to the
+ * current tick with `time`, outbound messages with `countBytes`, and
+ * `endTick` closes the tick.
+ */
+export class TickProfiler {
+  private phaseSamples: Record<ProfilePhase, Float64Array>;
+  private tickSamples = new Float64Array(WINDOW_TICKS);
+  private byteSamples = new Float64Array(WINDOW_TICKS);
+  private next: number = 0; // ring buffer slot for the tick in progress
+  private filled: number = 0;
+  private tickStart: number = 0;
+  private entities: EntityCounts = { players: 0, enemies: 0, projectiles: 0, loot: 0 };
+
+  constructor() {
+    this.phaseSamples = {} as Record<ProfilePhase, Float64Array>;
+    for (const phase of PROFILE_PHASES) {
+      this.phaseSamples[phase] = new Float64Array(WINDOW_TICKS);
+    }
+  }
+
+  beginTick(): void {
+    this.tickStart = performance.now();
+  }
+
+  // Runs `work` and adds its duration to the phase. A phase may be timed
+  // several times per tick.
+  time<T>(phase: ProfilePhase, work: () => T): T {
+    const start = performance.now();
+    try {
+      return work();
+    } finally {
+      this.phaseSamples[phase][this.next] += performance.now() - start;
+    }
+  }
+
+  // Bytes can arrive between ticks too (chat, portals); they count towards
+  // the next one
+  countBytes(bytes: number): void {
+    this.byteSamples[this.next] += bytes;
+  }
+
+  // Returns how long the tick took in ms
+  endTick(entities: EntityCounts): number {
+    const elapsed = performance.now() - this.tickStart;
+    this.tickSamples[this.next] = elapsed;
+    this.entities = entities;
+
+    this.next = (this.next + 1) % WINDOW_TICKS;
+    this.filled = Math.min(this.filled + 1, WINDOW_TICKS);
+    for (const phase of PROFILE_PHASES) {
+      this.phaseSamples[phase][this.next] = 0;
+    }
+    this.byteSamples[this.next] = 0;
+    return elapsed;
+  }
+
+  // Phase timings of the tick that just ended, slowest first
+  lastTickPhases(): [ProfilePhase, number][] {
+    const last = (this.next + WINDOW_TICKS - 1) % WINDOW_TICKS;
+    return PROFILE_PHASES.map((phase): [ProfilePhase, number] => [phase, this.phaseSamples[phase][last]]).sort(
+      (a, b) => b[1] - a[1]
+    );
+  }
+
+  snapshot(instanceId: string, instanceType: string, tickRate: number): InstanceProfile {
+    const phaseMs = {} as Record<ProfilePhase, Percentiles>;
+    for (const phase of PROFILE_PHASES) {
+      phaseMs[phase] = this.percentiles(this.phaseSamples[phase]);
+    }
+
+    const bytes = this.completed(this.byteSamples);
+    const totalBytes = bytes.reduce((sum, b) => sum + b, 0);
+
+    return {
+      instanceId,
+      instanceType,
+      ticks: this.filled,
+      tickMs: this.percentiles(this.tickSamples),
+      phaseMs,
+      bytesOut: this.percentiles(this.byteSamples),
+      bytesPerSecond: bytes.length > 0 ? Math.round((totalBytes / bytes.length) * tickRate) : 0,
+      entities: { ...this.entities },
+    };
+  }
+
+  // Samples of completed ticks, leaving out the one in progress
+  private completed(samples: Float64Array): number[] {
+    const values: number[] = [];
+    for (let i = 1; i <= this.filled; i++) {
+      values.push(samples[(this.next + WINDOW_TICKS - i) % WINDOW_TICKS]);
+    }
+    return values;
+  }
+
+  private percentiles(samples: Float64Array): Percentiles {
+    const sorted = this.completed(samples).sort((a, b) => a - b);
+    if (sorted.length === 0) return { p50: 0, p95: 0, p99: 0, max: 0 };
+    // Rounded to microseconds for ms timings, which is all the precision they have
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    const at = (q: number) => round(sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))]);
+    return { p50: at(0.5), p95: at(0.95), p99: at(0.99), max: round(sorted[sorted.length - 1]) };
+  }
+}
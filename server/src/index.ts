@@ -1,30 +1,70 @@
 import { GameServer } from './network/GameServer.js';
-import { GameDatabase } from './persistence/Database.js';
+import { createStore } from './persistence/PersistenceStore.js';
+import { StatusServer } from './network/StatusServer.js';
+import { GameMetrics } from './metrics/Metrics.js';
+import { logger } from './logging/Logger.js';
+import { ConfigError, loadConfig } from './config/Config.js';
+import { setTickRate } from './game/GameLoop.js';
 import * as fs from 'fs';
 
-// Ensure data directory exists
-if (!fs.existsSync('./data')) {
-  fs.mkdirSync('./data', { recursive: true });
-}
+// Settings come from the defaults in config/Config.ts, a config file and the
+// environment; `--dump-config` prints the result and exits. `--migrate`
+// brings the database schema up to date and exits, and with `--dry-run` only
+// reports which migrations would run.
+async function main() {
+  const config = loadConfig();
+  if (process.argv.includes('--dump-config')) {
+    process.stdout.write(JSON.stringify(config, null, 2) + '\n');
+    return;
+  }
 
-const PORT = parseInt(process.env.PORT || '8080');
-const DB_PATH = process.env.DB_PATH || './data/game.db';
+  logger.configure(config.logging);
+  setTickRate(config.world.tickRate);
 
-async function main() {
-  console.log('Initializing database...');
-  const database = new GameDatabase(DB_PATH);
+  // Ensure data directory exists
+  if (!fs.existsSync('./data')) {
+    fs.mkdirSync('./data', { recursive: true });
+  }
+
+  if (process.argv.includes('--migrate')) {
+    const dryRun = process.argv.includes('--dry-run');
+    const database = await createStore(config.persistence);
+    await database.init(dryRun);
+    database.close();
+    logger.info(dryRun ? 'Dry run finished, nothing was written' : 'Database is up to date', {
+      path: config.persistence.dbPath,
+    });
+    return;
+  }
+
+  const metrics = new GameMetrics();
+
+  logger.info('Initializing database', { backend: config.persistence.backend, path: config.persistence.dbPath });
+  const database = await createStore(config.persistence, metrics);
   await database.init();
 
-  console.log('Starting game server...');
-  const server = new GameServer(PORT, database);
+  logger.info('Starting game server');
+  const server = new GameServer(config, database, metrics);
   server.start();
 
-  console.log(`RotMG Clone Server running on port ${PORT}`);
+  let metricsServer: StatusServer | null = null;
+  if (config.admin.metricsPort > 0) {
+    metricsServer = new StatusServer(config.admin.metricsPort, config.admin.metricsHost);
+    metricsServer.route('/metrics', async () => ({
+      status: 200,
+      contentType: 'text/plain; version=0.0.4',
+      body: await metrics.render(),
+    }));
+    metricsServer.start();
+  }
+
+  logger.info('RotMG Clone Server running', { port: config.network.port });
 
   // Graceful shutdown
-  const shutdown = () => {
-    console.log('Shutting down...');
-    server.stop();
+  const shutdown = async () => {
+    logger.info('Shutting down');
+    await metricsServer?.stop();
+    await server.stop();
     database.close();
     process.exit(0);
   };
@@ -34,6 +74,10 @@ async function main() {
 }
 
 main().catch((err) => {
-  console.error('Failed to start server:', err);
+  if (err instanceof ConfigError) {
+    logger.error('Invalid configuration', { problems: err.problems });
+  } else {
+    logger.error('Failed to start server', { error: err });
+  }
   process.exit(1);
 });
@@ -21,6 +21,10 @@ import {
   AbilityDefinition,
   getDungeonForEnemy,
   DUNGEON_DROP_CHANCE,
+  MapChunk,
+  ProjectileSpawn,
+  ServerMessage,
+  handleToId,
 } from '@rotmg/shared';
 import { GameMap } from '../game/GameMap.js';
 import { PlayerEntity } from '../game/PlayerEntity.js';
@@ -30,22 +34,44 @@ import { LootEntity } from '../game/LootEntity.js';
 import { PortalEntity } from '../game/PortalEntity.js';
 import { VaultChestEntity } from '../game/VaultChestEntity.js';
 import { Entity } from '../game/Entity.js';
-import { GameServer } from '../network/GameServer.js';
 import { SpatialHash } from '../game/SpatialHash.js';
+import { Random, randomSeed } from '../game/Random.js';
+import { PositionHistory } from '../game/PositionHistory.js';
+import { PositionIntegrity } from '../game/PositionIntegrity.js';
+import { TickProfiler } from '../game/TickProfiler.js';
+import { diffSnapshots } from '../network/SnapshotHistory.js';
+import { EntityHandles, packSnapshotDelta } from '../network/SnapshotPacking.js';
+import { WorldShard } from '../shards/WorldShard.js';
 
 export type InstanceType = 'nexus' | 'realm' | 'dungeon' | 'vault';
 
+// An instance's generators, all derived from its seed. Each purpose has its
+// own, so a difference in one (enemies wandering elsewhere) doesn't change
+// the rolls of another (loot).
+export interface InstanceRandom {
+  spawns: Random; // where players and enemies appear, and which enemies
+  ai: Random;
+  loot: Random;
+  combat: Random; // damage rolls
+}
+
+// Map chunks sent to a joining player per tick, so a large map doesn't
+// arrive as one burst
+const MAP_CHUNKS_PER_TICK = 8;
+
 export class Instance {
   id: string;
   type: InstanceType;
   map: GameMap;
+  readonly seed: number;
+  readonly random: InstanceRandom;
   private players: Map<string, PlayerEntity> = new Map();
   private enemies: Map<string, EnemyEntity> = new Map();
   private projectiles: Map<string, ProjectileEntity> = new Map();
   private loots: Map<string, LootEntity> = new Map();
   private portals: Map<string, PortalEntity> = new Map();
   private vaultChests: Map<string, VaultChestEntity> = new Map();
-  private gameServer: GameServer | null = null;
+  private shard: WorldShard | null = null;
   private spawnTimers: Map<number, number> = new Map();
   private safeZone: boolean;
 
@@ -54,6 +80,26 @@ export class Instance {
   private enemyHash: SpatialHash<EnemyEntity> = new SpatialHash(4);
   private projectileHash: SpatialHash<ProjectileEntity> = new SpatialHash(4);
 
+  // Recent enemy positions for lag-compensated hit detection
+  private enemyHistory: PositionHistory = new PositionHistory();
+
+  // Flags player displacement not explained by walking or a sanctioned teleport
+  private positionIntegrity: PositionIntegrity = new PositionIntegrity();
+
+  // Per-phase timings and outbound bytes of recent ticks
+  readonly profiler: TickProfiler = new TickProfiler();
+
+  // Compact ids for enemies and projectiles in packed snapshots
+  private entityHandles: EntityHandles = new EntityHandles();
+
+  // Projectiles spawned, and ones removed by a hit, since the last tick's
+  // projectile events went out
+  private spawnedProjectiles: ProjectileEntity[] = [];
+  private hitProjectiles: ProjectileEntity[] = [];
+
+  // Map chunks still to be sent to each player, nearest first
+  private mapStreams: Map<string, MapChunk[]> = new Map();
+
   // Dungeon-specific properties
   private bossRoomCenter: Vec2 | null = null;
   private sourceInstanceId: string | null = null;
@@ -61,10 +107,17 @@ export class Instance {
   private initialSpawnDone: boolean = false;
   private fixedSpawnPosition: Vec2 | null = null; // Cached spawn position for dungeons
 
-  constructor(type: InstanceType, map: GameMap, id?: string) {
+  constructor(type: InstanceType, map: GameMap, id?: string, seed: number = randomSeed()) {
     this.id = id || uuid();
     this.type = type;
     this.map = map;
+    this.seed = seed;
+    this.random = {
+      spawns: Random.derive(seed, 'spawns'),
+      ai: Random.derive(seed, 'ai'),
+      loot: Random.derive(seed, 'loot'),
+      combat: Random.derive(seed, 'combat'),
+    };
     this.safeZone = type === 'nexus' || type === 'vault';
 
     // Initialize spawn timers for each region
@@ -73,59 +126,99 @@ export class Instance {
     });
   }
 
-  setGameServer(server: GameServer): void {
-    this.gameServer = server;
+  setShard(shard: WorldShard): void {
+    this.shard = shard;
   }
 
   update(deltaTime: number, tick: number): void {
-    // Update all entities and their spatial hash positions
-    for (const player of this.players.values()) {
-      player.update(deltaTime);
-      this.playerHash.update(player);
+    const profiler = this.profiler;
+    profiler.beginTick();
+
+    // Update all entities, then their spatial hash positions
+    profiler.time('entities', () => {
+      for (const player of this.players.values()) {
+        player.update(deltaTime);
 
-      // Auto-heal in safe zones (nexus)
-      if (this.safeZone) {
-        this.healPlayer(player, deltaTime);
+        // Auto-heal in safe zones (nexus)
+        if (this.safeZone) {
+          this.healPlayer(player, deltaTime);
+        }
       }
-    }
+    });
+    profiler.time('spatialHash', () => {
+      for (const player of this.players.values()) {
+        this.playerHash.update(player);
+      }
+    });
 
-    for (const enemy of this.enemies.values()) {
-      enemy.update(deltaTime);
-      this.enemyHash.update(enemy);
+    for (const anomaly of this.positionIntegrity.check(this.players.values())) {
+      this.shard?.reportPositionAnomaly(this, anomaly);
     }
 
-    for (const projectile of this.projectiles.values()) {
-      projectile.update(deltaTime);
-      this.projectileHash.update(projectile);
+    profiler.time('entities', () => {
+      for (const enemy of this.enemies.values()) {
+        enemy.update(deltaTime);
+      }
+    });
+    profiler.time('spatialHash', () => {
+      for (const enemy of this.enemies.values()) {
+        this.enemyHash.update(enemy);
+      }
+      if (!this.safeZone) {
+        this.enemyHistory.record(Date.now(), this.enemies.values());
+      }
+    });
+
+    profiler.time('entities', () => {
+      for (const projectile of this.projectiles.values()) {
+        projectile.update(deltaTime);
 
-      // Check wall collision
-      if (!this.map.isWalkable(projectile.position.x, projectile.position.y)) {
-        projectile.remove();
+        // Check wall collision
+        if (!this.map.isWalkable(projectile.position.x, projectile.position.y)) {
+          projectile.expire();
+        }
       }
-    }
 
-    for (const loot of this.loots.values()) {
-      loot.update(deltaTime);
-    }
+      for (const loot of this.loots.values()) {
+        loot.update(deltaTime);
+      }
 
-    for (const portal of this.portals.values()) {
-      portal.update(deltaTime);
-    }
+      for (const portal of this.portals.values()) {
+        portal.update(deltaTime);
+      }
+    });
+    profiler.time('spatialHash', () => {
+      for (const projectile of this.projectiles.values()) {
+        this.projectileHash.update(projectile);
+      }
+    });
 
     // Resolve combat (only in non-safe zones)
     if (!this.safeZone) {
-      this.resolveCombat();
-      this.updateSpawns(deltaTime);
+      profiler.time('combat', () => this.resolveCombat());
+      profiler.time('spawns', () => this.updateSpawns(deltaTime));
     }
 
     // Remove marked entities
-    this.cleanupEntities();
+    profiler.time('cleanup', () => this.cleanupEntities());
 
-    // Send snapshots to players
-    if (tick % 2 === 0) {
-      // Send at half tick rate to save bandwidth
-      this.sendSnapshots(tick);
-    }
+    profiler.time('network', () => {
+      this.sendMapChunks();
+      this.sendProjectileEvents();
+
+      // Send snapshots to players
+      if (tick % 2 === 0) {
+        // Send at half tick rate to save bandwidth
+        this.sendSnapshots(tick);
+      }
+    });
+
+    profiler.endTick({
+      players: this.players.size,
+      enemies: this.enemies.size,
+      projectiles: this.projectiles.size,
+      loot: this.loots.size,
+    });
   }
 
   private healPlayer(player: PlayerEntity, deltaTime: number): void {
@@ -144,18 +237,21 @@ export class Instance {
   }
 
   private resolveCombat(): void {
+    const now = Date.now();
+
     // Check player projectiles hitting enemies (using spatial hash)
     for (const projectile of this.projectiles.values()) {
       if (projectile.markedForRemoval) continue;
 
       if (projectile.ownerType === 'player') {
-        // Only check enemies near this projectile
+        // Only check enemies near this projectile. The 3x3 cell neighbourhood
+        // still covers enemies that moved since the rewound time.
         const nearbyEnemies = this.enemyHash.getNearby(projectile.position);
         for (const enemy of nearbyEnemies) {
           if (enemy.markedForRemoval) continue;
           if (projectile.hasHit(enemy.id)) continue;
 
-          if (projectile.collidesWith(enemy)) {
+          if (this.projectileHitsEnemy(projectile, enemy, now)) {
             const damage = enemy.takeDamage(projectile.damage, projectile.ownerId);
             projectile.recordHit(enemy.id);
 
@@ -166,10 +262,10 @@ export class Instance {
             }
 
             // Send damage event
-            this.broadcastToNearby(enemy.position, {
+            this.broadcastAboutEnemy(enemy, (targetId) => ({
               type: 'damage',
-              data: { targetId: enemy.id, damage, newHp: enemy.hp },
-            });
+              data: { targetId, damage, newHp: enemy.hp },
+            }));
 
             // Check if enemy died
             if (enemy.isDead()) {
@@ -181,7 +277,7 @@ export class Instance {
         // Enemy projectiles hitting players (using spatial hash)
         const nearbyPlayers = this.playerHash.getNearby(projectile.position);
         for (const player of nearbyPlayers) {
-          if (player.markedForRemoval) continue;
+          if (player.markedForRemoval || player.detached) continue;
           if (projectile.hasHit(player.id)) continue;
 
           if (projectile.collidesWith(player)) {
@@ -207,6 +303,19 @@ export class Instance {
     }
   }
 
+  // Test a player projectile against where its shooter saw the enemy
+  private projectileHitsEnemy(projectile: ProjectileEntity, enemy: EnemyEntity, now: number): boolean {
+    if (projectile.rewindMs <= 0) {
+      return projectile.collidesWith(enemy);
+    }
+
+    const seenPosition = this.enemyHistory.getPosition(enemy.id, now - projectile.rewindMs);
+    if (!seenPosition) {
+      return projectile.collidesWith(enemy);
+    }
+    return projectile.distanceTo(seenPosition) < projectile.radius + enemy.radius;
+  }
+
   private handleEnemyDeath(enemy: EnemyEntity, killerId: string): void {
     enemy.remove();
 
@@ -228,7 +337,7 @@ export class Instance {
 
     // Drop loot
     for (const entry of enemy.definition.lootTable) {
-      if (Math.random() < entry.chance) {
+      if (this.random.loot.next() < entry.chance) {
         const itemDef = ITEMS[entry.itemId];
         const isSoulbound = itemDef?.soulbound ?? false;
 
@@ -243,6 +352,8 @@ export class Instance {
               true
             );
             this.loots.set(loot.id, loot);
+            const owner = this.players.get(playerId) ?? null;
+            this.shard?.recordItem('loot', entry.itemId, this, owner, enemy.definitionId);
 
             this.sendToPlayer(playerId, {
               type: 'lootSpawn',
@@ -259,6 +370,7 @@ export class Instance {
             false
           );
           this.loots.set(loot.id, loot);
+          this.shard?.recordItem('loot', entry.itemId, this, null, enemy.definitionId);
 
           this.broadcastToNearby(enemy.position, {
             type: 'lootSpawn',
@@ -269,13 +381,13 @@ export class Instance {
     }
 
     // Check for special enemy types
-    if (this.gameServer) {
+    if (this.shard) {
       // Check if this enemy can drop a dungeon portal (only in realm)
       if (this.type === 'realm') {
         const dungeonType = getDungeonForEnemy(enemy.definitionId);
         const dropChance = DUNGEON_DROP_CHANCE[enemy.definitionId] || 0;
-        if (dungeonType && Math.random() < dropChance) {
-          this.gameServer.spawnDungeonPortal(this, { ...enemy.position }, dungeonType);
+        if (dungeonType && this.random.loot.next() < dropChance) {
+          this.shard.spawnDungeonPortal(this, { ...enemy.position }, dungeonType);
         }
       }
 
@@ -283,15 +395,15 @@ export class Instance {
       const isBoss = enemy.definitionId === 'dungeon_boss' || enemy.definitionId === 'cube_overlord';
       if (isBoss && this.type === 'dungeon' && !this.bossKilled) {
         this.bossKilled = true;
-        this.gameServer.onDungeonBossKilled(this, { ...enemy.position });
+        this.shard.onDungeonBossKilled(this, { ...enemy.position });
       }
     }
 
     // Send death event
-    this.broadcastToNearby(enemy.position, {
+    this.broadcastAboutEnemy(enemy, (entityId) => ({
       type: 'death',
-      data: { entityId: enemy.id, entityType: 'enemy' },
-    });
+      data: { entityId, entityType: 'enemy' },
+    }));
   }
 
   private handlePlayerDeath(player: PlayerEntity, killerName: string = 'Unknown'): void {
@@ -312,9 +424,9 @@ export class Instance {
       data: { entityId: player.id, entityType: 'player', killerName },
     });
 
-    // Notify game server to handle character death
-    if (this.gameServer) {
-      this.gameServer.handlePlayerDeath(player);
+    // Notify the shard to handle character death
+    if (this.shard) {
+      this.shard.handlePlayerDeath(player, this, killerName);
     }
   }
 
@@ -345,9 +457,9 @@ export class Instance {
       // Spawn if under max and timer elapsed
       const spawnInterval = 1 / region.spawnRate;
       if (timer >= spawnInterval && enemiesInRegion < region.maxEnemies) {
-        const pos = this.map.findRandomPositionInRegion(region);
+        const pos = this.map.findRandomPositionInRegion(region, this.random.spawns);
         if (pos) {
-          const enemyType = region.enemyTypes[Math.floor(Math.random() * region.enemyTypes.length)];
+          const enemyType = region.enemyTypes[Math.floor(this.random.spawns.next() * region.enemyTypes.length)];
           this.spawnEnemy(enemyType, pos);
         }
         timer = 0;
@@ -358,10 +470,16 @@ export class Instance {
   }
 
   private cleanupEntities(): void {
+    const now = Date.now();
+
     for (const [id, entity] of this.projectiles) {
       if (entity.markedForRemoval) {
         this.projectileHash.remove(entity);
         this.projectiles.delete(id);
+        this.entityHandles.retire(id, now);
+        if (!entity.expired) {
+          this.hitProjectiles.push(entity);
+        }
       }
     }
 
@@ -369,11 +487,18 @@ export class Instance {
       if (entity.markedForRemoval) {
         this.enemyHash.remove(entity);
         this.enemies.delete(id);
+        this.entityHandles.retire(id, now);
       }
     }
+    this.entityHandles.prune(now);
 
     for (const [id, entity] of this.loots) {
       if (entity.markedForRemoval) {
+        // A bag that still holds items timed out, and they are gone
+        const owner = entity.ownerId ? this.players.get(entity.ownerId) ?? null : null;
+        for (const itemId of entity.items) {
+          this.shard?.recordItem('despawn', itemId, this, owner);
+        }
         this.loots.delete(id);
       }
     }
@@ -382,6 +507,7 @@ export class Instance {
       if (entity.markedForRemoval) {
         this.playerHash.remove(entity);
         this.players.delete(id);
+        this.positionIntegrity.forget(id);
       }
     }
 
@@ -392,12 +518,115 @@ export class Instance {
     }
   }
 
+  // Queue the map for chunked delivery, starting with the area around the player
+  streamMapTo(player: PlayerEntity): void {
+    const distance = (chunk: MapChunk) => {
+      const dx = chunk.x + chunk.width / 2 - player.position.x;
+      const dy = chunk.y + chunk.height / 2 - player.position.y;
+      return dx * dx + dy * dy;
+    };
+    const chunks = [...this.map.getChunks(this.id)].sort((a, b) => distance(a) - distance(b));
+    this.mapStreams.set(player.id, chunks);
+  }
+
+  private sendMapChunks(): void {
+    for (const [playerId, chunks] of this.mapStreams) {
+      const player = this.players.get(playerId);
+      if (!player) {
+        this.mapStreams.delete(playerId);
+        continue;
+      }
+      if (player.detached) continue;
+
+      for (const chunk of chunks.splice(0, MAP_CHUNKS_PER_TICK)) {
+        this.sendToPlayer(playerId, { type: 'mapChunk', data: chunk });
+      }
+      if (chunks.length === 0) {
+        this.mapStreams.delete(playerId);
+      }
+    }
+  }
+
+  // Projectiles already in flight, for a client that just joined
+  sendProjectilesTo(player: PlayerEntity): void {
+    const projectiles: ProjectileSpawn[] = [];
+    for (const projectile of this.projectiles.values()) {
+      if (this.inProjectileRange(player, projectile)) {
+        projectiles.push(this.projectileToSpawn(projectile, projectile.position, projectile.getRemainingLifetime()));
+      }
+    }
+    if (projectiles.length > 0) {
+      this.sendToPlayer(player.id, { type: 'projectileSpawn', data: { projectiles } });
+    }
+  }
+
+  private sendProjectileEvents(): void {
+    if (this.spawnedProjectiles.length === 0 && this.hitProjectiles.length === 0) return;
+
+    // Projectiles that spawned and hit within the same tick are never shown
+    const spawnedNow = new Set(this.spawnedProjectiles);
+    const spawned = this.spawnedProjectiles.filter((p) => !p.markedForRemoval || p.expired);
+    const hit = this.hitProjectiles.filter((p) => !spawnedNow.has(p));
+    this.spawnedProjectiles = [];
+    this.hitProjectiles = [];
+
+    for (const player of this.players.values()) {
+      if (player.detached || !player.protocolFeatures.has('projectileEvents')) continue;
+
+      const projectiles = spawned
+        .filter((p) => this.inProjectileRange(player, p))
+        .map((p) => this.projectileToSpawn(p, p.origin, p.lifetime));
+      if (projectiles.length > 0) {
+        this.sendToPlayer(player.id, { type: 'projectileSpawn', data: { projectiles } });
+      }
+
+      const ids = hit
+        .filter((p) => this.inProjectileRange(player, p))
+        .map((p) => this.entityHandles.lookup(p.id))
+        .filter((id): id is number => id !== null);
+      if (ids.length > 0) {
+        this.sendToPlayer(player.id, { type: 'projectileRemove', data: { ids } });
+      }
+    }
+  }
+
+  // Whether a projectile can come into view of a player at any point of its
+  // flight, counting how far the player can walk towards it meanwhile. Spawns
+  // are only announced once, so a player out of range then never hears of it.
+  private inProjectileRange(player: PlayerEntity, projectile: ProjectileEntity): boolean {
+    const range = Math.hypot(projectile.velocity.x, projectile.velocity.y) * projectile.lifetime;
+    const reach = player.getEffectiveSpeed() * projectile.lifetime;
+    const dx = player.position.x - projectile.origin.x;
+    const dy = player.position.y - projectile.origin.y;
+    return Math.sqrt(dx * dx + dy * dy) <= AOI_RADIUS + range + reach;
+  }
+
   private sendSnapshots(tick: number): void {
     const timestamp = Date.now();
 
     for (const player of this.players.values()) {
+      if (player.detached) continue;
+
       const snapshot = this.createSnapshotForPlayer(player, tick, timestamp);
-      this.sendToPlayer(player.id, { type: 'snapshot', data: snapshot });
+      if (!player.protocolFeatures.has('deltaSnapshots')) {
+        this.sendToPlayer(player.id, { type: 'snapshot', data: snapshot });
+        continue;
+      }
+
+      // Send only what changed since the last snapshot the client acknowledged
+      const delta = player.snapshotHistory.createDelta(snapshot);
+      player.snapshotHistory.record(snapshot);
+      if (!player.protocolFeatures.has('packedSnapshots')) {
+        this.sendToPlayer(player.id, { type: 'snapshotDelta', data: delta });
+        continue;
+      }
+
+      // A baseline old enough to mention expired handles is replaced by a full resend
+      const packed = packSnapshotDelta(delta, this.entityHandles)
+        ?? packSnapshotDelta(diffSnapshots(null, snapshot), this.entityHandles);
+      if (packed) {
+        this.sendToPlayer(player.id, { type: 'packedSnapshot', data: packed });
+      }
     }
   }
 
@@ -424,9 +653,12 @@ export class Instance {
       }
     }
 
-    for (const pr of this.projectiles.values()) {
-      if (this.inAOI(pos, pr.position)) {
-        nearbyProjectiles.push(this.projectileToSnapshot(pr));
+    // Clients simulating projectiles learn about them from projectile events
+    if (!player.protocolFeatures.has('projectileEvents')) {
+      for (const pr of this.projectiles.values()) {
+        if (this.inAOI(pos, pr.position)) {
+          nearbyProjectiles.push(this.projectileToSnapshot(pr));
+        }
       }
     }
 
@@ -457,6 +689,7 @@ export class Instance {
       timestamp,
       instanceId: this.id,
       instanceType: this.type,
+      lastProcessedInput: player.lastProcessedInput,
       players: nearbyPlayers,
       enemies: nearbyEnemies,
       projectiles: nearbyProjectiles,
@@ -491,6 +724,7 @@ export class Instance {
       dexterity: p.dexterity,
       vitality: p.vitality,
       wisdom: p.wisdom,
+      moveSpeed: p.getEffectiveSpeed(),
       equipment: [...p.equipment],
       inventory: [...p.inventory],
     };
@@ -516,6 +750,18 @@ export class Instance {
     };
   }
 
+  private projectileToSpawn(p: ProjectileEntity, origin: Vec2, lifetime: number): ProjectileSpawn {
+    return {
+      id: this.entityHandles.lookup(p.id) ?? 0,
+      definitionId: p.definitionId,
+      ownerType: p.ownerType,
+      origin: { ...origin },
+      angle: Math.atan2(p.velocity.y, p.velocity.x),
+      speed: Math.hypot(p.velocity.x, p.velocity.y),
+      lifetime,
+    };
+  }
+
   private lootToSnapshot(l: LootEntity): LootSnapshot {
     return {
       id: l.id,
@@ -546,14 +792,18 @@ export class Instance {
   // Public methods for entity management
   addPlayer(player: PlayerEntity): void {
     player.instance = this;
+    // Baselines from the previous instance are meaningless here
+    player.snapshotHistory.reset();
+    // Movement queued in the previous instance must not carry over
+    player.clearQueuedInputs();
     // Use fixed spawn position for dungeons so all players spawn at the same place
     if (this.type === 'dungeon') {
       if (!this.fixedSpawnPosition) {
-        this.fixedSpawnPosition = this.map.findSpawnPosition();
+        this.fixedSpawnPosition = this.map.findSpawnPosition(this.random.spawns);
       }
-      player.position = { ...this.fixedSpawnPosition };
+      player.teleport(this.fixedSpawnPosition, 'portal');
     } else {
-      player.position = this.map.findSpawnPosition();
+      player.teleport(this.map.findSpawnPosition(this.random.spawns), 'portal');
     }
     this.players.set(player.id, player);
     this.playerHash.insert(player);
@@ -563,8 +813,10 @@ export class Instance {
     const player = this.players.get(playerId);
     if (player) {
       player.instance = null;
+      this.positionIntegrity.forget(playerId);
       this.playerHash.remove(player);
       this.players.delete(playerId);
+      this.mapStreams.delete(playerId);
     }
     return player;
   }
@@ -586,6 +838,7 @@ export class Instance {
     const enemy = new EnemyEntity(definitionId, position, this);
     this.enemies.set(enemy.id, enemy);
     this.enemyHash.insert(enemy);
+    this.entityHandles.assign(enemy.id);
     return enemy;
   }
 
@@ -598,7 +851,8 @@ export class Instance {
     speed: number,
     damage: number,
     piercing: boolean,
-    lifetime: number
+    lifetime: number,
+    rewindMs: number = 0
   ): ProjectileEntity {
     const projectile = new ProjectileEntity(
       ownerId,
@@ -611,8 +865,11 @@ export class Instance {
       piercing,
       lifetime
     );
+    projectile.rewindMs = rewindMs;
     this.projectiles.set(projectile.id, projectile);
     this.projectileHash.insert(projectile);
+    this.entityHandles.assign(projectile.id);
+    this.spawnedProjectiles.push(projectile);
     return projectile;
   }
 
@@ -656,6 +913,7 @@ export class Instance {
 
     // Pick up the first item in the bag
     if (loot.items.length > 0 && player.addToInventory(loot.items[0])) {
+      this.shard?.recordItem('pickup', loot.items[0], this, player);
       loot.removeItem(0);
       // If bag is now empty, it will self-remove via markedForRemoval
       return true;
@@ -713,8 +971,8 @@ export class Instance {
 
   // Networking helpers
   private sendToPlayer(playerId: string, message: any): void {
-    if (this.gameServer) {
-      this.gameServer.sendToPlayer(playerId, message);
+    if (this.shard) {
+      this.shard.sendToPlayer(playerId, message);
     }
   }
 
@@ -726,6 +984,19 @@ export class Instance {
     }
   }
 
+  // Events naming an enemy use the id the player's snapshots give it, which
+  // for packed snapshots is its handle
+  private broadcastAboutEnemy(enemy: EnemyEntity, message: (enemyId: string) => ServerMessage): void {
+    const handle = this.entityHandles.lookup(enemy.id);
+    const packedId = handle === null ? enemy.id : handleToId(handle);
+    for (const player of this.players.values()) {
+      if (this.inAOI(enemy.position, player.position)) {
+        const packed = player.protocolFeatures.has('packedSnapshots');
+        this.sendToPlayer(player.id, message(packed ? packedId : enemy.id));
+      }
+    }
+  }
+
   getPlayerCount(): number {
     return this.players.size;
   }
@@ -758,13 +1029,13 @@ export class Instance {
     for (const region of this.map.spawnRegions) {
       // Spawn up to maxEnemies for each region
       for (let i = 0; i < region.maxEnemies; i++) {
-        const enemyType = region.enemyTypes[Math.floor(Math.random() * region.enemyTypes.length)];
+        const enemyType = region.enemyTypes[Math.floor(this.random.spawns.next() * region.enemyTypes.length)];
 
         // Spawn boss at the center of the boss room
         if (enemyType === 'dungeon_boss' && this.bossRoomCenter) {
           this.spawnEnemy(enemyType, { ...this.bossRoomCenter });
         } else {
-          const pos = this.map.findRandomPositionInRegion(region);
+          const pos = this.map.findRandomPositionInRegion(region, this.random.spawns);
           if (pos) {
             this.spawnEnemy(enemyType, pos);
           }
@@ -808,10 +1079,10 @@ export class Instance {
             const actualDamage = enemy.takeDamage(damage, player.id);
 
             // Send damage event
-            this.broadcastToNearby(enemy.position, {
+            this.broadcastAboutEnemy(enemy, (targetId) => ({
               type: 'damage',
-              data: { targetId: enemy.id, damage: actualDamage, newHp: enemy.hp },
-            });
+              data: { targetId, damage: actualDamage, newHp: enemy.hp },
+            }));
 
             // Check if enemy died
             if (enemy.isDead()) {
@@ -866,8 +1137,7 @@ export class Instance {
 
           // Check if target position is valid
           if (this.map.canMoveTo(targetX, targetY, player.radius)) {
-            player.position.x = targetX;
-            player.position.y = targetY;
+            player.teleport({ x: targetX, y: targetY }, 'ability');
 
             // Broadcast ability effect for visual
             this.broadcastToNearby(player.position, {
@@ -0,0 +1,123 @@
+/**
+ * Leveled logging with structured fields. Each line is either readable text
+ * (`time LEVEL message key=value ...`) or one JSON object, chosen with
+ * LOG_FORMAT. LOG_LEVEL sets the lowest level written. Both are read from the
+ * environment, which worker threads share with the main thread.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'text' | 'json';
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export function isLogLevel(value: string): value is LogLevel {
+  return value in LEVELS;
+}
+
+export interface LoggerOptions {
+  level: LogLevel;
+  format: LogFormat;
+}
+
+function optionsFromEnv(): LoggerOptions {
+  const level = (process.env.LOG_LEVEL || 'info').toLowerCase();
+  const format = (process.env.LOG_FORMAT || 'text').toLowerCase();
+  return {
+    level: isLogLevel(level) ? level : 'info',
+    format: format === 'json' ? 'json' : 'text',
+  };
+}
+
+// Errors don't survive JSON.stringify; keep what helps an investigation
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+function formatText(value: unknown): string {
+  if (value instanceof Error) {
+    return JSON.stringify(value.stack ?? value.message);
+  }
+  if (typeof value === 'string') {
+    return value === '' || /[\s"=]/.test(value) ? JSON.stringify(value) : value;
+  }
+  return JSON.stringify(value) ?? String(value);
+}
+
+export class Logger {
+  private options: LoggerOptions;
+  // Functions are called on every line, for context that changes over time
+  private context: (LogFields | (() => LogFields))[];
+
+  constructor(options: LoggerOptions = optionsFromEnv(), context: (LogFields | (() => LogFields))[] = []) {
+    this.options = options;
+    this.context = context;
+  }
+
+  // A logger that adds these fields to every line
+  child(context: LogFields | (() => LogFields)): Logger {
+    return new Logger(this.options, [...this.context, context]);
+  }
+
+  // Changes the level or format of this logger and every child of it
+  configure(options: LoggerOptions): void {
+    Object.assign(this.options, options);
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LEVELS[level] >= LEVELS[this.options.level];
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (!this.isEnabled(level)) return;
+
+    const all: LogFields = {};
+    for (const context of this.context) {
+      Object.assign(all, typeof context === 'function' ? context() : context);
+    }
+    Object.assign(all, fields);
+
+    const time = new Date().toISOString();
+    let line: string;
+    if (this.options.format === 'json') {
+      const entry: LogFields = { time, level, msg: message };
+      for (const [key, value] of Object.entries(all)) {
+        if (value !== undefined && value !== null) entry[key] = serialize(value);
+      }
+      line = JSON.stringify(entry);
+    } else {
+      const pairs = Object.entries(all)
+        .filter(([, value]) => value !== undefined && value !== null)
+        .map(([key, value]) => `${key}=${formatText(value)}`);
+      line = [time, level.toUpperCase().padEnd(5), message, ...pairs].join(' ');
+    }
+
+    if (LEVELS[level] >= LEVELS.warn) {
+      process.stderr.write(line + '\n');
+    } else {
+      process.stdout.write(line + '\n');
+    }
+  }
+}
+
+// The process-wide logger; modules take children of it for their context
+export const logger = new Logger();
@@ -0,0 +1,201 @@
+/**
+ * Metrics in the Prometheus text exposition format. Small on purpose: just
+ * the counters, gauges and histograms the server needs, no client library.
+ */
+
+export type Labels = Record<string, string>;
+
+// Bucket counts for one histogram series. Plain data, so a worker thread can
+// keep one and send it over as is.
+export interface HistogramSnapshot {
+  buckets: number[]; // upper bounds, ascending
+  counts: number[]; // per bucket, plus one for values above the last bound
+  sum: number;
+  count: number;
+}
+
+export function createHistogramSnapshot(buckets: number[]): HistogramSnapshot {
+  return { buckets, counts: new Array(buckets.length + 1).fill(0), sum: 0, count: 0 };
+}
+
+export function observeHistogram(histogram: HistogramSnapshot, value: number): void {
+  let bucket = 0;
+  while (bucket < histogram.buckets.length && value > histogram.buckets[bucket]) {
+    bucket++;
+  }
+  histogram.counts[bucket]++;
+  histogram.sum += value;
+  histogram.count++;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+abstract class Metric<T> {
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+  readonly name: string;
+  readonly help: string;
+  // Keyed by the rendered label set
+  protected series: Map<string, { labels: Labels; value: T }> = new Map();
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  // Drop every series, for values rebuilt from scratch on each scrape
+  reset(): void {
+    this.series.clear();
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.sampleLines(labels, value));
+    }
+    return lines.join('\n');
+  }
+
+  protected abstract sampleLines(labels: Labels, value: T): string[];
+
+  protected get(labels: Labels, initial: () => T): { labels: Labels; value: T } {
+    const key = formatLabels(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: { ...labels }, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+export class Counter extends Metric<number> {
+  readonly type = 'counter';
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    this.get(labels, () => 0).value += amount;
+  }
+
+  protected sampleLines(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+export class Gauge extends Metric<number> {
+  readonly type = 'gauge';
+
+  set(value: number, labels: Labels = {}): void {
+    this.get(labels, () => 0).value = value;
+  }
+
+  protected sampleLines(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+export class Histogram extends Metric<HistogramSnapshot> {
+  readonly type = 'histogram';
+  private buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[]) {
+    super(name, help);
+    this.buckets = buckets;
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    observeHistogram(this.get(labels, () => createHistogramSnapshot(this.buckets)).value, value);
+  }
+
+  // Replace a series with counts kept elsewhere, such as on a worker thread
+  set(snapshot: HistogramSnapshot, labels: Labels = {}): void {
+    this.get(labels, () => snapshot).value = snapshot;
+  }
+
+  protected sampleLines(labels: Labels, value: HistogramSnapshot): string[] {
+    const lines: string[] = [];
+    let cumulative = 0;
+    for (let i = 0; i <= value.buckets.length; i++) {
+      cumulative += value.counts[i];
+      const le = i < value.buckets.length ? value.buckets[i] : Infinity;
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(le) })} ${cumulative}`);
+    }
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric<unknown>[] = [];
+  private collectors: (() => void | Promise<void>)[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  // Runs before each render, for values read on demand rather than counted
+  onCollect(collector: () => void | Promise<void>): void {
+    this.collectors.push(collector);
+  }
+
+  async render(): Promise<string> {
+    for (const collector of this.collectors) {
+      await collector();
+    }
+    return this.metrics.map((metric) => metric.render()).join('\n') + '\n';
+  }
+
+  private register<M extends Metric<unknown>>(metric: M): M {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+// Upper bounds for tick durations, in seconds, around the 50 ms budget
+export const TICK_DURATION_BUCKETS = [0.001, 0.0025, 0.005, 0.01, 0.02, 0.035, 0.05, 0.075, 0.1, 0.25];
+
+/**
+ * Everything the game server reports. Counters are updated where things
+ * happen; gauges and shard tick times are filled in on each scrape.
+ */
+export class GameMetrics extends MetricsRegistry {
+  readonly sessions = this.gauge('rotmg_sessions_connected', 'Open WebSocket connections');
+  readonly players = this.gauge('rotmg_players', 'Characters in the world, by instance type');
+  readonly dungeons = this.gauge('rotmg_dungeons_active', 'Dungeon instances currently running');
+  readonly tickDuration = this.histogram(
+    'rotmg_tick_duration_seconds',
+    'Time to simulate one tick of all instances on a shard',
+    TICK_DURATION_BUCKETS
+  );
+  readonly messagesReceived = this.counter('rotmg_messages_received_total', 'Client messages received, by type');
+  readonly messagesSent = this.counter('rotmg_messages_sent_total', 'Server messages sent, by type');
+  readonly dbSaveDuration = this.histogram(
+    'rotmg_db_save_duration_seconds',
+    'Time spent writing to the database, by operation',
+    [0.0005, 0.001, 0.005, 0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5]
+  );
+  readonly authFailures = this.counter(
+    'rotmg_auth_failures_total',
+    'Failed logins, resumes and registrations, by method and reason'
+  );
+}
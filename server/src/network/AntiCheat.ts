@@ -0,0 +1,73 @@
+/**
+ * Per-session cheat detection.
+ * Actions the server rejects are only violations when an unmodified client
+ * would never have sent them (e.g. it gates ability cooldowns itself). Each
+ * violation adds to a score that decays over time, so the occasional
+ * network hiccup fades out while sustained cheating crosses the thresholds:
+ * first the session is flagged for admin review, then kicked.
+ */
+
+export type ViolationKind =
+  | 'fireRate' // explicit shoot message before the weapon was ready
+  | 'abilityCooldown' // ability used well before its cooldown ended
+  | 'moveDirection' // movement vector longer than a unit vector
+  | 'inputDuration' // single input covering more time than allowed
+  | 'movementOverrun'; // more movement sent than real time allows
+
+export type AntiCheatVerdict = 'none' | 'flag' | 'kick';
+
+export interface Violation {
+  kind: ViolationKind;
+  detail: string;
+  time: number;
+  score: number; // session score after this violation
+}
+
+const VIOLATION_WEIGHTS: Record<ViolationKind, number> = {
+  fireRate: 2,
+  abilityCooldown: 5,
+  moveDirection: 10,
+  inputDuration: 10,
+  movementOverrun: 4,
+};
+
+// Score lost per second without violations
+const SCORE_DECAY_PER_SECOND = 0.5;
+const FLAG_SCORE = 30;
+const KICK_SCORE = 100;
+// Violations kept as evidence per session
+const MAX_EVIDENCE = 50;
+
+export class AntiCheat {
+  flagged: boolean = false;
+  private score: number = 0;
+  private updatedAt: number = Date.now();
+  private evidence: Violation[] = [];
+
+  report(kind: ViolationKind, detail: string, now: number = Date.now()): AntiCheatVerdict {
+    this.score = this.getScore(now) + VIOLATION_WEIGHTS[kind];
+    this.updatedAt = now;
+
+    this.evidence.push({ kind, detail, time: now, score: this.score });
+    if (this.evidence.length > MAX_EVIDENCE) {
+      this.evidence.shift();
+    }
+
+    if (this.score >= KICK_SCORE) return 'kick';
+    if (this.score >= FLAG_SCORE && !this.flagged) {
+      this.flagged = true;
+      return 'flag';
+    }
+    return 'none';
+  }
+
+  getScore(now: number = Date.now()): number {
+    const elapsed = Math.max(0, now - this.updatedAt) / 1000;
+    return Math.max(0, this.score - elapsed * SCORE_DECAY_PER_SECOND);
+  }
+
+  // Oldest first
+  getEvidence(): readonly Violation[] {
+    return this.evidence;
+  }
+}
@@ -4,118 +4,179 @@ import type { Duplex } from 'stream';
 import { v4 as uuid } from 'uuid';
 import { encode, decode } from '@msgpack/msgpack';
 import { existsSync, readFileSync, watchFile } from 'fs';
-import { join, dirname } from 'path';
+import { randomBytes } from 'crypto';
+import { dirname } from 'path';
 import { fileURLToPath } from 'url';
 import {
   ClientMessage,
   ServerMessage,
-  PlayerInput,
-  Character,
-  WEAPONS,
   CLASSES,
-  ARMORS,
-  ABILITIES,
   ITEMS,
-  Vec2,
-  DUNGEONS,
-  getDungeonForEnemy,
-  DUNGEON_DROP_CHANCE,
-  ENEMIES,
-  VAULT_SIZE,
-  VAULT_CHEST_INTERACT_RANGE,
+  HelloMessage,
+  ProtocolFeature,
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  negotiateFeatures,
+  Character,
 } from '@rotmg/shared';
-import { GameLoop } from '../game/GameLoop.js';
-import { Instance } from '../instances/Instance.js';
-import { GameMap, DungeonMapResult } from '../game/GameMap.js';
-import { PlayerEntity } from '../game/PlayerEntity.js';
-import { PortalEntity } from '../game/PortalEntity.js';
-import { VaultChestEntity } from '../game/VaultChestEntity.js';
-import { GameDatabase } from '../persistence/Database.js';
+import { PlayerEntity, PlayerState } from '../game/PlayerEntity.js';
+import { ItemEvent, ItemTransaction, PersistenceStore } from '../persistence/PersistenceStore.js';
+import { PositionAnomaly } from '../game/PositionIntegrity.js';
+import { ShardPool } from '../shards/ShardPool.js';
+import {
+  ShardEvent,
+  PlayerMessage,
+  NEXUS_INSTANCE_ID,
+  REALM_INSTANCE_ID,
+  instanceIdFor,
+} from '../shards/ShardProtocol.js';
+import { validateClientMessage } from './MessageValidator.js';
+import { RateLimiter, RateLimits, RateLimitAction, defaultRateLimits } from './RateLimiter.js';
+import { AntiCheat, AntiCheatVerdict, Violation, ViolationKind } from './AntiCheat.js';
+import { LogFields, Logger, logger } from '../logging/Logger.js';
+import { StatusServer, StatusResponse, jsonResponse } from './StatusServer.js';
+import { PROFILE_PHASES, Percentiles } from '../game/TickProfiler.js';
+import { GameMetrics } from '../metrics/Metrics.js';
+import { ServerConfig } from '../config/Config.js';
+
+// Malformed messages tolerated per connection before it is dropped
+const MAX_PROTOCOL_VIOLATIONS = 5;
+
+// Flagged and kicked sessions kept for admin review
+const MAX_CHEAT_REPORTS = 100;
+// Position anomalies kept for admin review
+const MAX_POSITION_ANOMALIES = 200;
+// How long to wait for shards to answer a profile request, and to save their
+// players, before going on without the ones that haven't
+const PROFILE_TIMEOUT_MS = 2000;
+const SAVE_TIMEOUT_MS = 10_000;
+
+// /healthz fails if a shard takes longer than this to answer, or if its loop
+// hasn't ticked for longer than that
+const HEALTH_TIMEOUT_MS = 2000;
+const MAX_MS_SINCE_TICK = 5000;
+
+// Item ledger entries returned by /debug/items unless `limit` says otherwise,
+// and the most it will return
+const DEFAULT_ITEM_HISTORY = 100;
+const MAX_ITEM_HISTORY = 1000;
+
+// Admin commands that act on the player or its instance, run by its shard
+const SHARD_ADMIN_COMMANDS = new Set(['give', 'heal', 'level', 'spawn', 'tp', 'dungeon', 'seed']);
+
+// A session the anti-cheat flagged or kicked, with the evidence at the time
+interface CheatReport {
+  accountId: string | null;
+  playerName: string | null;
+  verdict: Exclude<AntiCheatVerdict, 'none'>;
+  time: number;
+  score: number;
+  evidence: Violation[];
+}
+
+// A character whose connection dropped, held in its instance until resumed
+interface DetachedPlayer {
+  playerId: string;
+  playerName: string;
+  characterId: string;
+  accountId: string;
+  instanceId: string; // follows the player if a handoff was under way
+  resumeToken: string;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Log context for a player held for a resume, who has no session
+function detachedFields(detached: DetachedPlayer): LogFields {
+  return {
+    accountId: detached.accountId,
+    characterId: detached.characterId,
+    instanceId: detached.instanceId,
+    playerName: detached.playerName,
+  };
+}
 
 interface ClientSession {
   ws: WebSocket;
   accountId: string | null;
   playerId: string | null;
+  playerName: string | null;
   characterId: string | null;
-  instanceId: string | null;
-  lastInputTime: number;
-  inputCount: number;
+  instanceId: string | null; // routes the player's messages to its shard
+  rateLimiter: RateLimiter;
+  antiCheat: AntiCheat;
   authAttempts: number;
   lastAuthAttempt: number;
-  vaultOpen: boolean;
-  vaultItems: (string | null)[];
+  protocolVersion: number | null; // null until the hello handshake completes
+  features: Set<ProtocolFeature>;
+  protocolViolations: number;
+  resumeToken: string | null; // issued when a character enters the world
+  sessionId: string; // identifies the connection in logs
+  log: Logger; // adds the session's account, character and instance to each line
 }
 
+/**
+ * Owns the connections: handshake, auth, rate limits, chat and the database.
+ * The world itself runs in shards (see ShardPool), which may be on worker
+ * threads; player messages are routed to the shard owning the player's
+ * instance, and players moving between instances are handed off through here.
+ */
 export class GameServer {
   private wss: WebSocketServer;
-  private gameLoop: GameLoop;
-  private database: GameDatabase;
+  private shards: ShardPool;
+  private database: PersistenceStore;
   private clients: Map<WebSocket, ClientSession> = new Map();
   private playerToClient: Map<string, WebSocket> = new Map();
-  private nexusInstance: Instance;
-  private realmInstance: Instance;
   private adminUsernames: Set<string> = new Set();
   private autoSaveInterval: ReturnType<typeof setInterval> | null = null;
-  private vaultInstances: Map<string, Instance> = new Map(); // keyed by accountId
-
-  constructor(port: number, database: GameDatabase) {
+  private detachedPlayers: Map<string, DetachedPlayer> = new Map(); // keyed by characterId
+  private pendingItems: ItemTransaction[] = []; // writes that failed, oldest first; retried until they succeed
+  private cheatReports: CheatReport[] = []; // oldest first
+  private positionAnomalies: (PositionAnomaly & { instanceId: string })[] = []; // oldest first
+  private rateLimits: RateLimits; // per-message-type budgets for each connection
+  private status: StatusServer | null = null; // local HTTP endpoints, if a port was given
+  private http: StatusServer; // the game port: WebSocket upgrades and health probes
+  private stopping: boolean = false;
+  private metrics: GameMetrics;
+  private config: ServerConfig;
+
+  constructor(config: ServerConfig, database: PersistenceStore, metrics: GameMetrics = new GameMetrics()) {
+    this.config = config;
     this.database = database;
-    this.gameLoop = new GameLoop(20); // 20 ticks per second
+    this.metrics = metrics;
+    this.metrics.onCollect(() => this.collectMetrics());
+    this.rateLimits = { ...defaultRateLimits(config.world.tickRate), ...config.network.rateLimits };
 
     // Load admin list
     this.loadAdminList();
 
-    // Create instances
-    this.nexusInstance = new Instance('nexus', GameMap.createNexusMap(), 'nexus-main');
-    this.nexusInstance.setGameServer(this);
-    this.gameLoop.addInstance(this.nexusInstance);
-
-    this.realmInstance = new Instance('realm', GameMap.createRealmMap(), 'realm-main');
-    this.realmInstance.setGameServer(this);
-    this.gameLoop.addInstance(this.realmInstance);
-
-    // Add portals between instances
-    // Nexus portal to Realm
-    const realmPortal = new PortalEntity(
-      { x: 15, y: 10 },
-      'realm-main',
-      'realm',
-      'Realm Portal'
-    );
-    this.nexusInstance.addPortal(realmPortal);
-
-    // Realm portal back to Nexus
-    const nexusPortal = new PortalEntity(
-      { x: 7, y: 7 },
-      'nexus-main',
-      'nexus',
-      'Nexus Portal'
-    );
-    this.realmInstance.addPortal(nexusPortal);
-
-    // Vault portal in Nexus (special - creates personal instances)
-    const vaultPortal = new PortalEntity(
-      { x: 10, y: 10 },
-      'vault', // Special marker - actual instance created on entry
-      'vault',
-      'Vault'
+    this.shards = new ShardPool(
+      config.world.instanceWorkers,
+      {
+        maxRewindMs: config.network.maxRewindMs,
+        tickRate: config.world.tickRate,
+        portals: config.world.portals,
+        logging: config.logging,
+      },
+      (event) => this.handleShardEvent(event)
     );
-    this.nexusInstance.addPortal(vaultPortal);
+
+    // Create instances; portals between them are set up by the shards
+    this.shards.createInstance({ type: 'nexus' });
+    this.shards.createInstance({ type: 'realm' });
+
+    // Probes for orchestration and load balancers, on the game port itself
+    this.http = new StatusServer(config.network.port, null);
+    this.http.route('/healthz', () => this.checkHealth());
+    this.http.route('/readyz', () => this.checkReadiness());
 
     // WebSocket server with origin validation
     this.wss = new WebSocketServer({
-      port,
+      server: this.http.server,
       verifyClient: (info: { origin: string; secure: boolean; req: IncomingMessage }) => {
-        // Allow connections from localhost (dev) and production domain
         const origin = info.origin || info.req.headers.origin;
-        const allowedOrigins = [
-          'http://localhost:3000',
-          'https://server.theanthonywang.com',
-          'http://server.theanthonywang.com'
-        ];
 
         // Allow if no origin (direct WebSocket connection) or if origin is whitelisted
-        return !origin || allowedOrigins.includes(origin);
+        return !origin || config.network.allowedOrigins.includes(origin);
       }
     });
 
@@ -123,7 +184,13 @@ export class GameServer {
       this.handleConnection(ws);
     });
 
-    console.log(`Game server listening on port ${port}`);
+    if (config.admin.statusPort > 0) {
+      this.status = new StatusServer(config.admin.statusPort);
+      this.status.route('/debug/profile', async () =>
+        jsonResponse(await this.shards.profile(PROFILE_TIMEOUT_MS))
+      );
+      this.status.route('/debug/items', (query) => this.queryItemHistory(query));
+    }
   }
 
   private handleConnection(ws: WebSocket): void {
@@ -131,35 +198,55 @@ export class GameServer {
       ws,
       accountId: null,
       playerId: null,
+      playerName: null,
       characterId: null,
       instanceId: null,
-      lastInputTime: Date.now(),
-      inputCount: 0,
+      rateLimiter: new RateLimiter(this.rateLimits),
+      antiCheat: new AntiCheat(),
       authAttempts: 0,
       lastAuthAttempt: 0,
-      vaultOpen: false,
-      vaultItems: [],
+      protocolVersion: null,
+      features: new Set(),
+      protocolViolations: 0,
+      resumeToken: null,
+      sessionId: uuid(),
+      log: logger,
     };
+    session.log = logger.child(() => ({
+      sessionId: session.sessionId,
+      accountId: session.accountId,
+      characterId: session.characterId,
+      instanceId: session.instanceId,
+    }));
     this.clients.set(ws, session);
 
     ws.on('message', (data) => {
       try {
         // Support both binary (MessagePack) and JSON for backwards compatibility
-        let message: ClientMessage;
+        let message: unknown;
         if (data instanceof Buffer || data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
-          message = decode(data instanceof Buffer ? data : new Uint8Array(data as ArrayBuffer)) as ClientMessage;
+          message = decode(data instanceof Buffer ? data : new Uint8Array(data as ArrayBuffer));
         } else {
           const parsed = JSON.parse(data.toString());
           // Validate message has required 'type' property and isn't trying prototype pollution
           if (!parsed || typeof parsed !== 'object' || !parsed.type || parsed.__proto__ || parsed.constructor) {
-            console.warn('Invalid message format or potential prototype pollution attempt');
+            session.log.warn('Invalid message format or potential prototype pollution attempt');
             return;
           }
-          message = parsed as ClientMessage;
+          message = parsed;
+        }
+
+        // Reject anything that doesn't match the ClientMessage schema before dispatch
+        const violation = validateClientMessage(message);
+        if (violation) {
+          this.metrics.messagesReceived.inc({ type: 'invalid' });
+          this.handleProtocolViolation(ws, session, violation);
+          return;
         }
-        this.handleMessage(ws, session, message);
+        this.metrics.messagesReceived.inc({ type: (message as ClientMessage).type });
+        this.handleMessage(ws, session, message as ClientMessage);
       } catch (e) {
-        console.error('Failed to parse message:', e);
+        session.log.error('Failed to parse message', { error: e });
       }
     });
 
@@ -169,25 +256,107 @@ export class GameServer {
     });
 
     ws.on('error', (error) => {
-      console.error('WebSocket error:', error);
+      session.log.error('WebSocket error', { error });
     });
   }
 
-  private handleMessage(ws: WebSocket, session: ClientSession, message: ClientMessage): void {
-    // Rate limiting
-    const now = Date.now();
-    if (now - session.lastInputTime < 10) {
-      session.inputCount++;
-      if (session.inputCount > 100) {
-        this.send(ws, { type: 'error', data: { message: 'Rate limited' } });
-        return;
-      }
+  private handleProtocolViolation(ws: WebSocket, session: ClientSession, violation: string): void {
+    session.protocolViolations++;
+    session.log.warn('Invalid message', {
+      violation,
+      violations: session.protocolViolations,
+      maxViolations: MAX_PROTOCOL_VIOLATIONS,
+    });
+
+    if (session.protocolViolations >= MAX_PROTOCOL_VIOLATIONS) {
+      this.send(ws, { type: 'error', data: { message: 'Too many invalid messages' } });
+      ws.close();
+    }
+  }
+
+  // The message has already been dropped; repeat offenders are warned, then kicked
+  private handleRateLimited(
+    ws: WebSocket,
+    session: ClientSession,
+    type: ClientMessage['type'],
+    action: RateLimitAction
+  ): void {
+    if (action === 'warn') {
+      session.log.warn('Rate limiting client', { lastDropped: type });
+      this.send(ws, { type: 'error', data: { message: 'You are sending messages too fast' } });
+    } else if (action === 'kick') {
+      session.log.warn('Kicking client for flooding', { lastDropped: type });
+      this.send(ws, { type: 'error', data: { message: 'Disconnected for sending too many messages' } });
+      ws.close();
+    }
+  }
+
+  private reportViolation(session: ClientSession, kind: ViolationKind, detail: string): void {
+    // Messages already queued from a kicked client don't need reporting again
+    if (session.ws.readyState !== WebSocket.OPEN) return;
+
+    const verdict = session.antiCheat.report(kind, detail);
+    if (verdict === 'none') return;
+
+    const report: CheatReport = {
+      accountId: session.accountId,
+      playerName: session.playerName,
+      verdict,
+      time: Date.now(),
+      score: session.antiCheat.getScore(),
+      evidence: [...session.antiCheat.getEvidence()],
+    };
+    this.cheatReports.push(report);
+    if (this.cheatReports.length > MAX_CHEAT_REPORTS) {
+      this.cheatReports.shift();
+    }
+
+    const who = `${report.playerName ?? 'unknown'} (account ${report.accountId ?? 'none'})`;
+    session.log.warn(`Anti-cheat ${verdict}`, {
+      playerName: report.playerName,
+      score: Math.round(report.score),
+      evidence: report.evidence.slice(-5).map((v) => `${v.kind}: ${v.detail}`),
+    });
+
+    if (verdict === 'flag') {
+      this.notifyAdmins(`Flagged ${who} for review (score ${Math.round(report.score)}), see /flagged`);
     } else {
-      session.lastInputTime = now;
-      session.inputCount = 0;
+      this.send(session.ws, { type: 'error', data: { message: 'Disconnected by anti-cheat' } });
+      session.ws.close();
+    }
+  }
+
+  private notifyAdmins(message: string): void {
+    for (const session of this.clients.values()) {
+      if (!session.accountId || !session.playerId) continue;
+      const account = this.database.getAccount(session.accountId);
+      if (account && this.isAdmin(account.username)) {
+        this.sendChatToPlayer(session.playerId, 'System', message);
+      }
+    }
+  }
+
+  private handleMessage(ws: WebSocket, session: ClientSession, message: ClientMessage): void {
+    // Rate limiting, per message type
+    const rateLimit = session.rateLimiter.check(message.type);
+    if (rateLimit !== 'allow') {
+      this.handleRateLimited(ws, session, message.type, rateLimit);
+      return;
+    }
+
+    // Clients that predate the handshake never send hello and can't parse
+    // helloResult, so tell them in a form they understand
+    if (session.protocolVersion === null && message.type !== 'hello') {
+      this.send(ws, { type: 'error', data: { message: 'Client out of date, please refresh the page' } });
+      ws.close();
+      return;
     }
 
     switch (message.type) {
+      case 'hello':
+        this.handleHello(ws, session, message.data);
+        break;
+
       case 'auth':
         this.handleAuth(ws, session, message.data.username, message.data.password);
         break;
@@ -196,6 +365,10 @@ export class GameServer {
         this.handleAuthToken(ws, session, message.data.token);
         break;
 
+      case 'resume':
+        this.handleResume(ws, session, message.data.token);
+        break;
+
       case 'logout':
         this.handleLogout(ws, session, message.data.token);
         break;
@@ -212,56 +385,36 @@ export class GameServer {
         this.handleSelectCharacter(ws, session, message.data.characterId);
         break;
 
-      case 'input':
-        this.handleInput(session, message.data);
-        break;
-
-      case 'shoot':
-        this.handleShoot(session, message.data.aimAngle);
-        break;
-
-      case 'useAbility':
-        this.handleUseAbility(session);
-        break;
-
-      case 'pickupLoot':
-        this.handlePickupLoot(session, message.data.lootId);
-        break;
-
-      case 'enterPortal':
-        this.handleEnterPortal(session, message.data.portalId);
-        break;
-
       case 'chat':
         this.handleChat(session, message.data.message);
         break;
 
-      case 'swapItems':
-        this.handleSwapItems(session, message.data.from, message.data.to);
-        break;
-
       case 'returnToNexus':
         this.handleReturnToNexus(session);
         break;
 
+      // These act on the player's instance and are run by its shard
+      case 'input':
+      case 'shoot':
+      case 'useAbility':
+      case 'pickupLoot':
+      case 'enterPortal':
+      case 'swapItems':
       case 'dropItem':
-        this.handleDropItem(session, message.data.slot);
-        break;
-
       case 'interactVaultChest':
-        this.handleInteractVaultChest(session);
-        break;
-
       case 'vaultTransfer':
-        this.handleVaultTransfer(session, message.data.fromVault, message.data.fromSlot, message.data.toSlot);
-        break;
-
       case 'closeVault':
-        this.handleCloseVault(session);
+      case 'snapshotAck':
+        this.forwardToShard(session, message);
         break;
     }
   }
 
+  private forwardToShard(session: ClientSession, message: PlayerMessage): void {
+    if (!session.playerId || !session.instanceId) return;
+    this.shards.send(session.instanceId, { type: 'playerMessage', playerId: session.playerId, message });
+  }
+
   private validateCredentials(username: string, password: string): { valid: boolean; error?: string } {
     // Username validation
     if (!username || username.length < 3 || username.length > 20) {
@@ -281,7 +434,7 @@ export class GameServer {
 
   private loadAdminList(): void {
     try {
-      const adminFilePath = join(process.cwd(), 'data', 'admins.txt');
+      const adminFilePath = this.config.admin.adminsFile;
       if (existsSync(adminFilePath)) {
         const content = readFileSync(adminFilePath, 'utf-8');
         this.adminUsernames.clear();
@@ -291,18 +444,18 @@ export class GameServer {
             this.adminUsernames.add(trimmed.toLowerCase());
           }
         }
-        console.log(`Loaded ${this.adminUsernames.size} admin(s): ${Array.from(this.adminUsernames).join(', ')}`);
+        logger.info('Loaded admin list', { admins: Array.from(this.adminUsernames) });
 
         // Watch for changes to the admin file
         watchFile(adminFilePath, () => {
-          console.log('Admin file changed, reloading...');
+          logger.info('Admin file changed, reloading', { path: adminFilePath });
           this.loadAdminList();
         });
       } else {
-        console.log('No admins.txt file found, no admins configured');
+        logger.info('No admins file found, no admins configured', { path: adminFilePath });
       }
     } catch (e) {
-      console.error('Failed to load admin list:', e);
+      logger.error('Failed to load admin list', { error: e });
     }
   }
 
@@ -310,7 +463,7 @@ export class GameServer {
     return this.adminUsernames.has(username.toLowerCase());
   }
 
-  private handleAdminCommand(session: ClientSession, player: PlayerEntity, command: string): boolean {
+  private handleAdminCommand(session: ClientSession, playerId: string, command: string): boolean {
     // Check if user is admin
     const account = this.database.getAccount(session.accountId!);
     if (!account || !this.isAdmin(account.username)) {
@@ -320,26 +473,20 @@ export class GameServer {
     const args = command.slice(1).split(' '); // Remove leading /
     const cmd = args[0].toLowerCase();
 
-    switch (cmd) {
-      case 'give': {
-        // /give <item_id>
-        const itemId = args[1];
-        if (!itemId) {
-          this.sendChatToPlayer(player, 'System', 'Usage: /give <item_id>');
-          return true;
-        }
-        if (!ITEMS[itemId]) {
-          this.sendChatToPlayer(player, 'System', `Unknown item: ${itemId}`);
-          return true;
-        }
-        if (player.addToInventory(itemId)) {
-          this.sendChatToPlayer(player, 'System', `Given: ${ITEMS[itemId].name}`);
-        } else {
-          this.sendChatToPlayer(player, 'System', 'Inventory full!');
-        }
-        return true;
+    if (SHARD_ADMIN_COMMANDS.has(cmd)) {
+      if (session.instanceId) {
+        this.shards.send(session.instanceId, {
+          type: 'adminCommand',
+          playerId,
+          admin: account.username,
+          command: cmd,
+          args,
+        });
       }
+      return true;
+    }
 
+    switch (cmd) {
       case 'items': {
         // /items - List all available items
         const itemTypes = ['weapon', 'ability', 'armor', 'ring'];
@@ -348,59 +495,106 @@ export class GameServer {
         if (filter && itemTypes.includes(filter)) {
           items = items.filter(id => ITEMS[id].type === filter);
         }
-        this.sendChatToPlayer(player, 'System', `Items (${items.length}): ${items.slice(0, 20).join(', ')}${items.length > 20 ? '...' : ''}`);
+        this.sendChatToPlayer(playerId, 'System', `Items (${items.length}): ${items.slice(0, 20).join(', ')}${items.length > 20 ? '...' : ''}`);
         return true;
       }
 
-      case 'heal': {
-        // /heal - Restore HP/MP to max
-        player.hp = player.getEffectiveMaxHp();
-        player.mp = player.getEffectiveMaxMp();
-        this.sendChatToPlayer(player, 'System', 'Fully healed!');
+      case 'flagged': {
+        // /flagged - Recent anti-cheat flags and kicks, newest first
+        const reports = this.cheatReports.slice(-10).reverse();
+        if (reports.length === 0) {
+          this.sendChatToPlayer(playerId, 'System', 'No flagged players');
+          return true;
+        }
+        for (const report of reports) {
+          const age = Math.round((Date.now() - report.time) / 60000);
+          this.sendChatToPlayer(
+            playerId,
+            'System',
+            `${report.verdict}: ${report.playerName ?? 'unknown'} score ${Math.round(report.score)}, ${age}m ago`
+          );
+        }
         return true;
       }
 
-      case 'level': {
-        // /level <level> - Set player level
-        const level = parseInt(args[1]) || 20;
-        while (player.level < level && player.level < 20) {
-          player.addExp(99999);
+      case 'evidence': {
+        // /evidence <player> - Violations behind the latest report on a player
+        const name = args[1]?.toLowerCase();
+        const report = name
+          ? [...this.cheatReports].reverse().find((r) => r.playerName?.toLowerCase() === name)
+          : undefined;
+        if (!report) {
+          this.sendChatToPlayer(playerId, 'System', 'Usage: /evidence <player> (must appear in /flagged)');
+          return true;
+        }
+        for (const violation of report.evidence.slice(-10)) {
+          const time = new Date(violation.time).toISOString().slice(11, 19);
+          this.sendChatToPlayer(playerId, 'System', `${time} ${violation.kind}: ${violation.detail}`);
         }
-        this.sendChatToPlayer(player, 'System', `Level set to ${player.level}`);
         return true;
       }
 
-      case 'spawn': {
-        // /spawn <enemy_id> - Spawn an enemy at player position
-        const enemyId = args[1];
-        if (!enemyId || !ENEMIES[enemyId]) {
-          this.sendChatToPlayer(player, 'System', `Usage: /spawn <enemy_id>. Available: ${Object.keys(ENEMIES).slice(0, 10).join(', ')}...`);
+      case 'anomalies': {
+        // /anomalies [player] - Recent unexplained position jumps, newest first
+        const name = args[1]?.toLowerCase();
+        const anomalies = this.positionAnomalies
+          .filter((a) => !name || a.playerName.toLowerCase() === name)
+          .slice(-10)
+          .reverse();
+        if (anomalies.length === 0) {
+          this.sendChatToPlayer(playerId, 'System', 'No position anomalies');
           return true;
         }
-        const instance = this.gameLoop.getInstance(session.instanceId!);
-        if (instance) {
-          instance.spawnEnemy(enemyId, { ...player.position });
-          this.sendChatToPlayer(player, 'System', `Spawned ${ENEMIES[enemyId].name}`);
+        for (const a of anomalies) {
+          const time = new Date(a.time).toISOString().slice(11, 19);
+          this.sendChatToPlayer(
+            playerId,
+            'System',
+            `${time} ${a.playerName} in ${a.instanceId}: moved ${a.distance.toFixed(1)} ` +
+              `(allowed ${a.allowed.toFixed(1)}) to (${a.to.x.toFixed(1)}, ${a.to.y.toFixed(1)})`
+          );
         }
         return true;
       }
 
-      case 'tp': {
-        // /tp <x> <y> - Teleport to coordinates
-        const x = parseFloat(args[1]);
-        const y = parseFloat(args[2]);
-        if (isNaN(x) || isNaN(y)) {
-          this.sendChatToPlayer(player, 'System', 'Usage: /tp <x> <y>');
+      case 'itemlog': {
+        // /itemlog <player> [item_id] - Where a player's items came from and
+        // went, newest first
+        const target = args[1] ? this.database.getAccountByUsername(args[1]) : null;
+        if (!target) {
+          this.sendChatToPlayer(playerId, 'System', 'Usage: /itemlog <player> [item_id]');
+          return true;
+        }
+        const events = this.database.getItemHistory({ accountId: target.id, itemId: args[2], limit: 10 });
+        if (events.length === 0) {
+          this.sendChatToPlayer(playerId, 'System', `No item events for ${target.username}`);
           return true;
         }
-        player.position.x = x;
-        player.position.y = y;
-        this.sendChatToPlayer(player, 'System', `Teleported to (${x}, ${y})`);
+        for (const event of events) {
+          const time = new Date(event.time).toISOString().slice(0, 16).replace('T', ' ');
+          const source = event.source ? ` from ${event.source}` : '';
+          this.sendChatToPlayer(
+            playerId,
+            'System',
+            `${time} ${event.action} ${event.itemId}${source} in ${event.instanceId ?? 'character creation'}`
+          );
+        }
+        return true;
+      }
+
+      case 'perf': {
+        // /perf [instance] - Tick timings over the last 10 seconds, per
+        // instance or broken down by phase for one
+        this.sendProfile(playerId, args[1]);
         return true;
       }
 
       case 'help': {
-        this.sendChatToPlayer(player, 'System', 'Admin commands: /give, /items, /heal, /level, /spawn, /tp, /help');
+        this.sendChatToPlayer(
+          playerId,
+          'System',
+          'Admin commands: /give, /items, /heal, /level, /spawn, /tp, /dungeon, /seed, /flagged, /evidence, /anomalies, /itemlog, /perf, /help'
+        );
         return true;
       }
 
@@ -409,8 +603,49 @@ export class GameServer {
     }
   }
 
-  private sendChatToPlayer(player: PlayerEntity, sender: string, message: string): void {
-    const ws = this.playerToClient.get(player.id);
+  private async sendProfile(playerId: string, instanceId: string | undefined): Promise<void> {
+    const shards = await this.shards.profile(PROFILE_TIMEOUT_MS);
+    const ms = (p: Percentiles) => `${p.p50.toFixed(1)}/${p.p95.toFixed(1)}/${p.p99.toFixed(1)}ms`;
+
+    if (instanceId) {
+      const profile = shards.flatMap((shard) => shard.instances).find((i) => i.instanceId === instanceId);
+      if (!profile) {
+        this.sendChatToPlayer(playerId, 'System', `No instance ${instanceId}`);
+        return;
+      }
+      this.sendChatToPlayer(playerId, 'System', `${instanceId} p50/p95/p99 over ${profile.ticks} ticks: ${ms(profile.tickMs)}`);
+      for (const phase of PROFILE_PHASES) {
+        this.sendChatToPlayer(playerId, 'System', `  ${phase}: ${ms(profile.phaseMs[phase])}`);
+      }
+      const { players, enemies, projectiles, loot } = profile.entities;
+      this.sendChatToPlayer(
+        playerId,
+        'System',
+        `  ${players} players, ${enemies} enemies, ${projectiles} projectiles, ${loot} bags; ` +
+          `${(profile.bytesPerSecond / 1024).toFixed(1)} KB/s out`
+      );
+      return;
+    }
+
+    for (const shard of shards) {
+      this.sendChatToPlayer(
+        playerId,
+        'System',
+        `Shard ${shard.shard}: tick ${shard.tick}, ${shard.overruns} over budget, ${shard.skippedTicks} skipped`
+      );
+      for (const profile of shard.instances) {
+        this.sendChatToPlayer(
+          playerId,
+          'System',
+          `  ${profile.instanceId}: ${ms(profile.tickMs)}, ${profile.entities.players} players, ` +
+            `${(profile.bytesPerSecond / 1024).toFixed(1)} KB/s`
+        );
+      }
+    }
+  }
+
+  private sendChatToPlayer(playerId: string, sender: string, message: string): void {
+    const ws = this.playerToClient.get(playerId);
     if (ws) {
       this.send(ws, {
         type: 'chat',
@@ -435,16 +670,19 @@ export class GameServer {
   private async handleAuth(ws: WebSocket, session: ClientSession, username: string, password: string): Promise<void> {
     // Rate limiting
     if (!this.checkAuthRateLimit(session)) {
+      this.metrics.authFailures.inc({ method: 'password', reason: 'rate_limited' });
       this.send(ws, { type: 'authResult', data: { success: false, error: 'Too many login attempts. Try again later.' } });
       return;
     }
 
     // Basic validation (no min password length to support legacy accounts)
     if (!username || username.length < 3 || username.length > 20) {
+      this.metrics.authFailures.inc({ method: 'password', reason: 'invalid_credentials' });
       this.send(ws, { type: 'authResult', data: { success: false, error: 'Invalid username or password' } });
       return;
     }
     if (!password || password.length > 100) {
+      this.metrics.authFailures.inc({ method: 'password', reason: 'invalid_credentials' });
       this.send(ws, { type: 'authResult', data: { success: false, error: 'Invalid username or password' } });
       return;
     }
@@ -453,6 +691,7 @@ export class GameServer {
     const account = await this.database.validateLogin(username, password);
 
     if (!account) {
+      this.metrics.authFailures.inc({ method: 'password', reason: 'invalid_credentials' });
       this.send(ws, { type: 'authResult', data: { success: false, error: 'Invalid username or password' } });
       return;
     }
@@ -460,6 +699,7 @@ export class GameServer {
     // Create session token
     const token = this.database.createSession(account.id);
     if (!token) {
+      this.metrics.authFailures.inc({ method: 'password', reason: 'session_error' });
       this.send(ws, { type: 'authResult', data: { success: false, error: 'Failed to create session' } });
       return;
     }
@@ -468,7 +708,7 @@ export class GameServer {
     this.send(ws, { type: 'authResult', data: { success: true, accountId: account.id, token } });
 
     // Send character list
-    const characters = this.database.getAliveCharactersByAccount(account.id);
+    const characters = this.getAliveCharacters(account.id);
     this.send(ws, {
       type: 'characterList',
       data: {
@@ -479,7 +719,7 @@ export class GameServer {
           level: c.level,
           alive: c.alive,
         })),
-        maxCharacters: 2,
+        maxCharacters: this.config.gameplay.maxCharacters,
       },
     });
   }
@@ -487,6 +727,7 @@ export class GameServer {
   private async handleAuthToken(ws: WebSocket, session: ClientSession, token: string): Promise<void> {
     // Rate limiting
     if (!this.checkAuthRateLimit(session)) {
+      this.metrics.authFailures.inc({ method: 'token', reason: 'rate_limited' });
       this.send(ws, { type: 'authResult', data: { success: false, error: 'Too many login attempts. Try again later.' } });
       return;
     }
@@ -495,6 +736,7 @@ export class GameServer {
     const account = this.database.validateSession(token);
 
     if (!account) {
+      this.metrics.authFailures.inc({ method: 'token', reason: 'invalid_token' });
       this.send(ws, { type: 'authResult', data: { success: false, error: 'Invalid or expired session' } });
       return;
     }
@@ -503,7 +745,7 @@ export class GameServer {
     this.send(ws, { type: 'authResult', data: { success: true, accountId: account.id, token } });
 
     // Send character list
-    const characters = this.database.getAliveCharactersByAccount(account.id);
+    const characters = this.getAliveCharacters(account.id);
     this.send(ws, {
       type: 'characterList',
       data: {
@@ -514,7 +756,7 @@ export class GameServer {
           level: c.level,
           alive: c.alive,
         })),
-        maxCharacters: 2,
+        maxCharacters: this.config.gameplay.maxCharacters,
       },
     });
   }
@@ -522,12 +764,50 @@ export class GameServer {
   private handleLogout(ws: WebSocket, session: ClientSession, token: string): void {
     // Revoke the session token on the server
     this.database.revokeSession(token);
-    console.log('Session revoked');
+    // A deliberate logout shouldn't leave the character waiting for a resume
+    session.resumeToken = null;
+    session.log.info('Session revoked');
+  }
+
+  private handleResume(ws: WebSocket, session: ClientSession, token: string): void {
+    // Only a connection without a character can take one over
+    if (session.playerId) return;
+
+    // The old socket may not have noticed the drop yet; retire it now so the
+    // character is held and can be picked up below
+    for (const other of this.clients.values()) {
+      if (other !== session && other.resumeToken === token && other.playerId) {
+        this.handleDisconnect(other);
+        other.playerId = null;
+        other.instanceId = null;
+        other.resumeToken = null;
+        this.clients.delete(other.ws);
+        other.ws.terminate();
+        break;
+      }
+    }
+
+    let detached: DetachedPlayer | null = null;
+    for (const candidate of this.detachedPlayers.values()) {
+      if (candidate.resumeToken === token) {
+        detached = candidate;
+        break;
+      }
+    }
+
+    if (!detached) {
+      this.metrics.authFailures.inc({ method: 'resume', reason: 'invalid_token' });
+      this.send(ws, { type: 'resumeResult', data: { success: false } });
+      return;
+    }
+
+    this.reattachPlayer(ws, session, detached);
   }
 
   private async handleRegister(ws: WebSocket, session: ClientSession, username: string, password: string): Promise<void> {
     // Rate limiting
     if (!this.checkAuthRateLimit(session)) {
+      this.metrics.authFailures.inc({ method: 'register', reason: 'rate_limited' });
       this.send(ws, { type: 'registerResult', data: { success: false, error: 'Too many attempts. Try again later.' } });
       return;
     }
@@ -535,6 +815,7 @@ export class GameServer {
     // Validate credentials
     const validation = this.validateCredentials(username, password);
     if (!validation.valid) {
+      this.metrics.authFailures.inc({ method: 'register', reason: 'invalid_credentials' });
       this.send(ws, { type: 'registerResult', data: { success: false, error: validation.error } });
       return;
     }
@@ -543,6 +824,7 @@ export class GameServer {
     const account = await this.database.createAccount(username, password);
 
     if (!account) {
+      this.metrics.authFailures.inc({ method: 'register', reason: 'username_taken' });
       this.send(ws, { type: 'registerResult', data: { success: false, error: 'Username already taken' } });
       return;
     }
@@ -566,9 +848,10 @@ export class GameServer {
     }
 
     // Check character limit
-    const existingCharacters = this.database.getAliveCharactersByAccount(session.accountId);
-    if (existingCharacters.length >= 2) {
-      this.send(ws, { type: 'error', data: { message: 'Maximum 2 characters allowed' } });
+    const existingCharacters = this.getAliveCharacters(session.accountId);
+    const { maxCharacters } = this.config.gameplay;
+    if (existingCharacters.length >= maxCharacters) {
+      this.send(ws, { type: 'error', data: { message: `Maximum ${maxCharacters} characters allowed` } });
       return;
     }
 
@@ -586,7 +869,7 @@ export class GameServer {
     }
 
     // Refresh character list
-    const characters = this.database.getAliveCharactersByAccount(session.accountId);
+    const characters = this.getAliveCharacters(session.accountId);
     this.send(ws, {
       type: 'characterList',
       data: {
@@ -597,7 +880,7 @@ export class GameServer {
           level: c.level,
           alive: c.alive,
         })),
-        maxCharacters: 2,
+        maxCharacters: this.config.gameplay.maxCharacters,
       },
     });
   }
@@ -608,405 +891,122 @@ export class GameServer {
       return;
     }
 
-    const character = this.database.getCharacter(characterId);
+    const character = this.pendingCharacter(characterId) ?? this.database.getCharacter(characterId);
     if (!character || character.accountId !== session.accountId || !character.alive) {
       this.send(ws, { type: 'error', data: { message: 'Invalid character' } });
       return;
     }
 
+    // A character still held from a dropped connection continues where it was
+    const detached = this.detachedPlayers.get(characterId);
+    if (detached) {
+      this.reattachPlayer(ws, session, detached);
+      return;
+    }
+
     // Create player entity
     const player = new PlayerEntity(character, session.accountId);
+    player.protocolFeatures = session.features;
     session.playerId = player.id;
+    session.playerName = player.name;
     session.characterId = characterId;
-    session.instanceId = this.nexusInstance.id;
+    session.instanceId = NEXUS_INSTANCE_ID;
+    session.resumeToken = randomBytes(32).toString('hex');
 
     this.playerToClient.set(player.id, ws);
-    this.nexusInstance.addPlayer(player);
+    this.send(ws, { type: 'resumeToken', data: { token: session.resumeToken } });
 
-    // Send instance change event with map data
-    const mapData = this.nexusInstance.map.toData();
-    this.send(ws, {
-      type: 'instanceChange',
-      data: {
-        instanceId: this.nexusInstance.id,
-        instanceType: 'nexus',
-        spawnPosition: player.position,
-        playerId: player.id,
-        mapWidth: mapData.width,
-        mapHeight: mapData.height,
-        mapTiles: mapData.tiles,
-      },
-    });
+    // The nexus shard sends the instance change
+    this.shards.addPlayer(player.toState(), NEXUS_INSTANCE_ID);
   }
 
-  private handleInput(session: ClientSession, input: PlayerInput): void {
-    if (!session.playerId || !session.instanceId) return;
-
-    const instance = this.gameLoop.getInstance(session.instanceId);
-    if (!instance) return;
-
-    const player = instance.getPlayer(session.playerId);
-    if (!player) return;
-
-    // Validate input
-    const moveDir = input.moveDirection;
-    const len = Math.sqrt(moveDir.x * moveDir.x + moveDir.y * moveDir.y);
-    if (len > 1.1) {
-      // Allow small margin for floating point
-      moveDir.x /= len;
-      moveDir.y /= len;
-    }
-
-    player.processInput({
-      moveDirection: moveDir,
-      aimAngle: input.aimAngle,
-      shooting: input.shooting,
+  private reattachPlayer(ws: WebSocket, session: ClientSession, detached: DetachedPlayer): void {
+    clearTimeout(detached.timer);
+    this.detachedPlayers.delete(detached.characterId);
+
+    session.accountId = detached.accountId;
+    session.playerId = detached.playerId;
+    session.playerName = detached.playerName;
+    session.characterId = detached.characterId;
+    session.instanceId = detached.instanceId;
+    session.resumeToken = detached.resumeToken;
+    this.playerToClient.set(detached.playerId, ws);
+
+    // The shard picks up the new connection's features and sends the instance
+    // change; the client hears whether it worked once the shard answers
+    const sent = this.shards.send(detached.instanceId, {
+      type: 'reattachPlayer',
+      playerId: detached.playerId,
+      features: [...session.features],
     });
-
-    // Handle shooting if requested
-    if (input.shooting) {
-      this.handleShoot(session, input.aimAngle);
+    if (!sent) {
+      this.handleReattachFailed(detached.playerId);
     }
   }
 
-  private handleShoot(session: ClientSession, aimAngle: number): void {
-    if (!session.playerId || !session.instanceId) return;
-
-    const instance = this.gameLoop.getInstance(session.instanceId);
-    if (!instance) return;
-
-    const player = instance.getPlayer(session.playerId);
-    if (!player || !player.canShoot()) return;
-
-    const weapon = player.getWeapon();
-    if (!weapon) return;
-
-    player.lastShootTime = Date.now();
-    player.shotsFired++;
-
-    // Calculate damage
-    const baseDamage = weapon.damage[0] + Math.random() * (weapon.damage[1] - weapon.damage[0]);
-    const damage = player.calculateDamage(baseDamage);
-
-    // Spawn projectiles
-    const arcGapRad = (weapon.arcGap * Math.PI) / 180;
-    const startAngle = aimAngle - (arcGapRad * (weapon.numProjectiles - 1)) / 2;
-
-    for (let i = 0; i < weapon.numProjectiles; i++) {
-      const angle = startAngle + arcGapRad * i;
-      instance.spawnProjectile(
-        player.id,
-        'player',
-        weapon.projectileId,
-        { ...player.position },
-        angle,
-        weapon.projectileSpeed,
-        Math.floor(damage),
-        weapon.piercing,
-        weapon.range / weapon.projectileSpeed
-      );
-    }
-  }
-
-  private handleUseAbility(session: ClientSession): void {
-    if (!session.playerId || !session.instanceId) return;
-
-    const instance = this.gameLoop.getInstance(session.instanceId);
-    if (!instance) return;
-
-    const player = instance.getPlayer(session.playerId);
-    if (!player) return;
-
-    // Get ability from equipment slot 1
-    const abilityId = player.equipment[1];
-    if (!abilityId) return;
-
-    const ability = ABILITIES[abilityId];
-    if (!ability) return;
-
-    // Check cooldown
-    const now = Date.now();
-    if (now - player.lastAbilityTime < ability.cooldown * 1000) return;
-
-    // Check MP
-    if (player.mp < ability.mpCost) return;
-
-    // Consume MP and set cooldown
-    player.mp -= ability.mpCost;
-    player.lastAbilityTime = now;
-    player.abilitiesUsed++;
+  private handleReattached(playerId: string): void {
+    const ws = this.playerToClient.get(playerId);
+    const session = ws && this.clients.get(ws);
+    if (!ws || !session?.resumeToken) return;
 
-    // Execute ability effect
-    instance.executeAbility(player, ability);
+    session.log.info('Player resumed', { playerName: session.playerName });
+    this.send(ws, { type: 'resumeResult', data: { success: true } });
+    this.send(ws, { type: 'resumeToken', data: { token: session.resumeToken } });
   }
 
-  private handlePickupLoot(session: ClientSession, lootId: string): void {
-    if (!session.playerId || !session.instanceId) return;
-
-    const instance = this.gameLoop.getInstance(session.instanceId);
-    if (!instance) return;
-
-    const player = instance.getPlayer(session.playerId);
-    if (!player) return;
-
-    instance.tryPickupLoot(player, lootId);
+  // The held player went away before the shard got to it. The client falls
+  // back to logging in with its saved token, which lands on the character list.
+  private handleReattachFailed(playerId: string): void {
+    const ws = this.playerToClient.get(playerId);
+    const session = ws && this.clients.get(ws);
+    this.playerToClient.delete(playerId);
+    if (!ws || !session) return;
+
+    session.log.warn('Resumed player is gone', { playerName: session.playerName });
+    session.accountId = null;
+    session.playerId = null;
+    session.playerName = null;
+    session.characterId = null;
+    session.instanceId = null;
+    session.resumeToken = null;
+    this.send(ws, { type: 'resumeResult', data: { success: false } });
   }
 
-  private handleEnterPortal(session: ClientSession, portalId: string): void {
-    if (!session.playerId || !session.instanceId || !session.accountId) return;
-
-    const instance = this.gameLoop.getInstance(session.instanceId);
-    if (!instance) return;
-
-    const player = instance.getPlayer(session.playerId);
-    if (!player) return;
-
-    const portal = instance.tryEnterPortal(player, portalId);
-    if (!portal) return;
+  private handleHello(ws: WebSocket, session: ClientSession, hello: HelloMessage): void {
+    // Only one handshake per connection
+    if (session.protocolVersion !== null) return;
 
-    // Handle vault portal specially - create personal instance
-    if (portal.targetType === 'vault') {
-      const vaultInstance = this.getOrCreateVaultInstance(session.accountId);
-      this.transferPlayerToInstance(session, player, instance, vaultInstance);
+    const version = hello.protocolVersion;
+    if (version < MIN_PROTOCOL_VERSION) {
+      this.send(ws, {
+        type: 'helloResult',
+        data: { accepted: false, protocolVersion: PROTOCOL_VERSION, features: [], reason: 'clientOutdated' },
+      });
+      ws.close();
       return;
     }
 
-    // Transfer player to new instance
-    const targetInstance = this.gameLoop.getInstance(portal.targetInstance);
-    if (!targetInstance) return;
+    // Newer clients are accepted and expected to fall back to our version;
+    // they refuse the connection themselves if they can't
+    session.protocolVersion = Math.min(version, PROTOCOL_VERSION);
+    session.features = new Set(negotiateFeatures(hello.features));
 
-    this.transferPlayerToInstance(session, player, instance, targetInstance);
+    this.send(ws, {
+      type: 'helloResult',
+      data: { accepted: true, protocolVersion: PROTOCOL_VERSION, features: [...session.features] },
+    });
   }
 
   private handleReturnToNexus(session: ClientSession): void {
     if (!session.playerId || !session.instanceId) return;
 
     // Already in nexus
-    if (session.instanceId === this.nexusInstance.id) return;
-
-    const instance = this.gameLoop.getInstance(session.instanceId);
-    if (!instance) return;
-
-    const player = instance.getPlayer(session.playerId);
-    if (!player) return;
-
-    this.transferPlayerToInstance(session, player, instance, this.nexusInstance);
-  }
-
-  private handleDropItem(session: ClientSession, slot: number): void {
-    if (!session.playerId || !session.instanceId) return;
-
-    const instance = this.gameLoop.getInstance(session.instanceId);
-    if (!instance) return;
+    if (session.instanceId === NEXUS_INSTANCE_ID) return;
 
-    const player = instance.getPlayer(session.playerId);
-    if (!player) return;
-
-    // Get item from slot (0-3 = equipment, 4-11 = inventory)
-    let itemId: string | null = null;
-    if (slot >= 0 && slot < 4) {
-      itemId = player.equipment[slot];
-      if (itemId) player.equipment[slot] = null;
-    } else if (slot >= 4 && slot < 12) {
-      const invIndex = slot - 4;
-      itemId = player.inventory[invIndex];
-      if (itemId) player.inventory[invIndex] = null;
-    }
-
-    if (!itemId) return;
-
-    // Cap HP/MP if armor or ring was dropped
-    if (slot === 2 || slot === 3) {
-      const effectiveMaxHp = player.getEffectiveMaxHp();
-      const effectiveMaxMp = player.getEffectiveMaxMp();
-      if (player.hp > effectiveMaxHp) {
-        player.hp = effectiveMaxHp;
-      }
-      if (player.mp > effectiveMaxMp) {
-        player.mp = effectiveMaxMp;
-      }
-    }
-
-    // Try to drop into existing nearby loot bag, or create new one
-    instance.dropItem(player, itemId);
-  }
-
-  private getOrCreateVaultInstance(accountId: string): Instance {
-    // Check if vault instance already exists for this account
-    let vaultInstance = this.vaultInstances.get(accountId);
-    if (vaultInstance) {
-      return vaultInstance;
-    }
-
-    // Create new vault instance
-    const vaultMapResult = GameMap.createVaultMap();
-    const vaultId = `vault-${accountId}`;
-    vaultInstance = new Instance('vault', vaultMapResult.map, vaultId);
-    vaultInstance.setGameServer(this);
-
-    // Add vault chest
-    const vaultChest = new VaultChestEntity(vaultMapResult.chestPosition, 'vault-chest');
-    vaultInstance.addVaultChest(vaultChest);
-
-    // Add return portal to nexus
-    const returnPortal = new PortalEntity(
-      { x: 7.5, y: 12.5 },
-      'nexus-main',
-      'nexus',
-      'Nexus Portal'
-    );
-    vaultInstance.addPortal(returnPortal);
-
-    // Register instance
-    this.gameLoop.addInstance(vaultInstance);
-    this.vaultInstances.set(accountId, vaultInstance);
-
-    console.log(`Created vault instance for account ${accountId}`);
-    return vaultInstance;
-  }
-
-  private handleInteractVaultChest(session: ClientSession): void {
-    if (!session.playerId || !session.instanceId || !session.accountId) return;
-
-    const instance = this.gameLoop.getInstance(session.instanceId);
-    if (!instance) return;
-
-    // Security: Only allow vault interaction in vault instance
-    if (instance.type !== 'vault') {
-      console.warn(`Player ${session.playerId} tried to interact with vault outside vault instance`);
-      return;
-    }
-
-    // Security: Verify this is the player's own vault
-    if (instance.id !== `vault-${session.accountId}`) {
-      console.warn(`Player ${session.playerId} tried to access another player's vault`);
-      return;
-    }
-
-    const player = instance.getPlayer(session.playerId);
-    if (!player) return;
-
-    // Check distance to vault chest
-    const vaultChest = instance.getFirstVaultChest();
-    if (!vaultChest) return;
-
-    const dist = player.distanceTo(vaultChest);
-    if (dist > VAULT_CHEST_INTERACT_RANGE) return;
-
-    // Load vault items from database
-    let vaultItems = this.database.getVaultItems(session.accountId);
-
-    // Initialize vault if empty (ensure VAULT_SIZE slots)
-    if (vaultItems.length < VAULT_SIZE) {
-      vaultItems = Array(VAULT_SIZE).fill(null);
-      this.database.saveVaultItems(session.accountId, vaultItems);
-    }
-
-    // Store vault items in session for transfer operations
-    session.vaultItems = [...vaultItems];
-    session.vaultOpen = true;
-
-    // Send vault contents to client
-    this.send(session.ws, {
-      type: 'vaultOpen',
-      data: { vaultItems: session.vaultItems },
-    });
-  }
-
-  private handleVaultTransfer(session: ClientSession, fromVault: boolean, fromSlot: number, toSlot: number): void {
-    if (!session.playerId || !session.instanceId || !session.accountId) return;
-    if (!session.vaultOpen) return;
-
-    const instance = this.gameLoop.getInstance(session.instanceId);
-    if (!instance) return;
-
-    // Security: Only allow in vault instance
-    if (instance.type !== 'vault') return;
-
-    // Security: Verify own vault
-    if (instance.id !== `vault-${session.accountId}`) return;
-
-    const player = instance.getPlayer(session.playerId);
-    if (!player) return;
-
-    // Validate slot ranges
-    // Vault slots: 0-7 (VAULT_SIZE)
-    // Inventory slots: 0-7 (8 slots)
-    if (fromVault) {
-      if (fromSlot < 0 || fromSlot >= VAULT_SIZE) return;
-      if (toSlot < 0 || toSlot >= 8) return;
-    } else {
-      if (fromSlot < 0 || fromSlot >= 8) return;
-      if (toSlot < 0 || toSlot >= VAULT_SIZE) return;
-    }
-
-    // Perform atomic transfer
-    if (fromVault) {
-      // Vault -> Inventory
-      const vaultItem = session.vaultItems[fromSlot];
-      const invItem = player.inventory[toSlot];
-
-      // Swap items (both can be null)
-      session.vaultItems[fromSlot] = invItem;
-      player.inventory[toSlot] = vaultItem;
-    } else {
-      // Inventory -> Vault
-      const invItem = player.inventory[fromSlot];
-      const vaultItem = session.vaultItems[toSlot];
-
-      // Swap items (both can be null)
-      player.inventory[fromSlot] = vaultItem;
-      session.vaultItems[toSlot] = invItem;
-    }
-
-    // Save vault to database immediately for security
-    this.database.saveVaultItems(session.accountId, session.vaultItems);
-
-    // Send updated vault contents to client
-    this.send(session.ws, {
-      type: 'vaultUpdate',
-      data: { vaultItems: session.vaultItems },
-    });
-  }
-
-  private handleCloseVault(session: ClientSession): void {
-    if (!session.accountId) return;
-
-    if (session.vaultOpen && session.vaultItems.length > 0) {
-      // Save vault items before closing
-      this.database.saveVaultItems(session.accountId, session.vaultItems);
-    }
-
-    session.vaultOpen = false;
-    session.vaultItems = [];
-  }
-
-  private transferPlayerToInstance(
-    session: ClientSession,
-    player: PlayerEntity,
-    fromInstance: Instance,
-    toInstance: Instance
-  ): void {
-    // Remove from current instance
-    fromInstance.removePlayer(session.playerId!);
-
-    // Add to target instance
-    toInstance.addPlayer(player);
-    session.instanceId = toInstance.id;
-
-    // Send instance change with map data
-    const mapData = toInstance.map.toData();
-    this.send(session.ws, {
-      type: 'instanceChange',
-      data: {
-        instanceId: toInstance.id,
-        instanceType: toInstance.type,
-        spawnPosition: player.position,
-        playerId: player.id,
-        mapWidth: mapData.width,
-        mapHeight: mapData.height,
-        mapTiles: mapData.tiles,
-      },
+    this.shards.send(session.instanceId, {
+      type: 'handoffPlayer',
+      playerId: session.playerId,
+      instanceId: NEXUS_INSTANCE_ID,
     });
   }
 
@@ -1022,13 +1022,7 @@ export class GameServer {
   }
 
   private handleChat(session: ClientSession, message: string): void {
-    if (!session.playerId || !session.instanceId) return;
-
-    const instance = this.gameLoop.getInstance(session.instanceId);
-    if (!instance) return;
-
-    const player = instance.getPlayer(session.playerId);
-    if (!player) return;
+    if (!session.playerId || !session.instanceId || !session.playerName) return;
 
     // Sanitize for XSS and limit message length
     const trimmed = message.trim();
@@ -1036,7 +1030,7 @@ export class GameServer {
 
     // Check for admin commands (starts with /)
     if (trimmed.startsWith('/')) {
-      if (this.handleAdminCommand(session, player, trimmed)) {
+      if (this.handleAdminCommand(session, session.playerId, trimmed)) {
         return; // Command handled, don't broadcast
       }
       // Not an admin or invalid command - fall through to broadcast as normal chat
@@ -1050,7 +1044,7 @@ export class GameServer {
         this.send(client, {
           type: 'chat',
           data: {
-            sender: this.sanitizeHtml(player.name),
+            sender: this.sanitizeHtml(session.playerName),
             message: sanitized,
             timestamp: Date.now(),
           },
@@ -1059,141 +1053,186 @@ export class GameServer {
     }
   }
 
-  private handleSwapItems(session: ClientSession, fromSlot: number, toSlot: number): void {
-    if (!session.playerId || !session.instanceId) return;
-
-    const instance = this.gameLoop.getInstance(session.instanceId);
-    if (!instance) return;
+  private handleDisconnect(session: ClientSession): void {
+    if (session.playerId && session.instanceId) {
+      this.playerToClient.delete(session.playerId);
 
-    const player = instance.getPlayer(session.playerId);
-    if (!player) return;
+      // Keep the character in the world for a while in case the client comes back
+      if (session.accountId && session.resumeToken && session.playerName && session.characterId) {
+        this.detachPlayer({
+          playerId: session.playerId,
+          playerName: session.playerName,
+          characterId: session.characterId,
+          accountId: session.accountId,
+          instanceId: session.instanceId,
+          resumeToken: session.resumeToken,
+        });
+        return;
+      }
 
-    // Prevent swapping same slot with itself (potential duplication exploit)
-    if (fromSlot === toSlot) return;
+      this.releasePlayer(session.instanceId, session.playerId);
+    }
+  }
 
-    // Slot mapping: 0-3 = equipment, 4-11 = inventory
-    const getSlot = (slot: number): { array: (string | null)[]; index: number } | null => {
-      if (slot >= 0 && slot < 4) {
-        return { array: player.equipment, index: slot };
-      } else if (slot >= 4 && slot < 12) {
-        return { array: player.inventory, index: slot - 4 };
-      }
-      return null;
+  private detachPlayer(held: Omit<DetachedPlayer, 'timer'>): void {
+    // The shard freezes the player and saves an open vault
+    this.shards.send(held.instanceId, { type: 'detachPlayer', playerId: held.playerId });
+
+    const detached: DetachedPlayer = {
+      ...held,
+      timer: setTimeout(() => {
+        this.detachedPlayers.delete(detached.characterId);
+        this.releasePlayer(detached.instanceId, detached.playerId);
+        logger.info('Resume window expired', detachedFields(detached));
+      }, this.config.network.resumeGraceMs),
     };
 
-    const from = getSlot(fromSlot);
-    const to = getSlot(toSlot);
+    this.detachedPlayers.set(detached.characterId, detached);
+    logger.info('Holding player after disconnect', { ...detachedFields(detached), graceMs: this.config.network.resumeGraceMs });
+  }
 
-    if (!from || !to) return;
+  // Take a player out of the world for good; its shard sends the character
+  // back to be saved
+  private releasePlayer(instanceId: string, playerId: string): void {
+    this.shards.send(instanceId, { type: 'releasePlayer', playerId });
+  }
 
-    const cls = CLASSES[player.classId];
-    if (!cls) return;
+  private handleShardEvent(event: ShardEvent): void {
+    switch (event.type) {
+      case 'send':
+        this.sendToPlayer(event.playerId, event.messageType, event.data);
+        break;
 
-    const slotTypes = ['weapon', 'ability', 'armor', 'ring'];
+      case 'transferRequest':
+        this.handleTransferRequest(event.playerId, event.instanceId);
+        break;
 
-    // Helper to validate if an item can go into a specific equipment slot
-    const isValidForEquipmentSlot = (itemId: string | null, equipSlot: number): boolean => {
-      if (itemId === null) return true; // null is always valid (clearing slot)
+      case 'handoff':
+        this.handleHandoff(event.player, event.instanceId);
+        break;
 
-      const item = ITEMS[itemId];
-      if (!item) return false; // Unknown items are not valid
+      case 'handoffRejected':
+        // The instance went away while the player was on the way
+        logger.warn('Instance is gone, sending player to the nexus', {
+          instanceId: event.instanceId,
+          accountId: event.player.accountId,
+          characterId: event.player.character.id,
+        });
+        this.handleHandoff(event.player, NEXUS_INSTANCE_ID);
+        break;
 
-      // Check slot type compatibility
-      if (item.type !== slotTypes[equipSlot]) return false;
+      case 'reattached':
+        this.handleReattached(event.playerId);
+        break;
 
-      // Check class compatibility for weapons/abilities/armor
-      if (equipSlot === 0) {
-        // Weapon slot - check weapon type
-        const weapon = WEAPONS[itemId];
-        if (weapon && weapon.type !== cls.weaponType) return false;
-      } else if (equipSlot === 1) {
-        // Ability slot - check ability type
-        const ability = ABILITIES[itemId];
-        if (ability && ability.type !== cls.abilityType) return false;
-      } else if (equipSlot === 2) {
-        // Armor slot - check armor type
-        const armor = ARMORS[itemId];
-        if (armor && armor.type !== cls.armorType) return false;
-      }
-      // Ring slot (3) has no class restriction
+      case 'reattachFailed':
+        this.handleReattachFailed(event.playerId);
+        break;
 
-      return true;
-    };
+      case 'playerDied':
+        this.handlePlayerDeath(event.playerId, event.character, event.events);
+        break;
 
-    // Validate item going into toSlot (if toSlot is equipment slot)
-    if (toSlot < 4) {
-      if (!isValidForEquipmentSlot(from.array[from.index], toSlot)) {
-        return;
-      }
-    }
+      case 'playerReleased':
+      case 'saveCharacter':
+        this.saveCharacter(event.character);
+        break;
 
-    // Validate item going into fromSlot (if fromSlot is equipment slot) - this is the swap direction
-    if (fromSlot < 4) {
-      if (!isValidForEquipmentSlot(to.array[to.index], fromSlot)) {
-        return;
-      }
-    }
+      case 'saveVault':
+        this.saveVaultItems(event.accountId, event.items);
+        break;
 
-    // Perform the swap
-    const temp = from.array[from.index];
-    from.array[from.index] = to.array[to.index];
-    to.array[to.index] = temp;
+      case 'saveItems':
+        this.commitItems(event.transaction);
+        break;
 
-    // Cap HP/MP to new effective max if armor or ring slot was involved
-    if (fromSlot === 2 || fromSlot === 3 || toSlot === 2 || toSlot === 3) {
-      const effectiveMaxHp = player.getEffectiveMaxHp();
-      const effectiveMaxMp = player.getEffectiveMaxMp();
-      if (player.hp > effectiveMaxHp) {
-        player.hp = effectiveMaxHp;
-      }
-      if (player.mp > effectiveMaxMp) {
-        player.mp = effectiveMaxMp;
+      case 'itemEvents':
+        this.recordItemEvents(event.events);
+        break;
+
+      case 'violation': {
+        const ws = this.playerToClient.get(event.playerId);
+        const session = ws && this.clients.get(ws);
+        if (session) {
+          this.reportViolation(session, event.kind, event.detail);
+        }
+        break;
       }
+
+      case 'positionAnomaly':
+        this.reportPositionAnomaly(event.instanceId, event.anomaly);
+        break;
+
+      case 'spawnDungeon':
+        this.shards.createInstance(event.spec);
+        break;
     }
   }
 
-  private handleDisconnect(session: ClientSession): void {
-    // Save vault if open
-    if (session.accountId && session.vaultOpen && session.vaultItems.length > 0) {
-      this.database.saveVaultItems(session.accountId, session.vaultItems);
-    }
+  // A player entered a portal. Only connected players are moved; a held
+  // player stays where it is until it resumes.
+  private handleTransferRequest(playerId: string, instanceId: string): void {
+    const ws = this.playerToClient.get(playerId);
+    const session = ws && this.clients.get(ws);
+    if (!session?.instanceId || !session.accountId) return;
 
-    if (session.playerId && session.instanceId) {
-      const instance = this.gameLoop.getInstance(session.instanceId);
-      if (instance) {
-        const player = instance.removePlayer(session.playerId);
-        if (player && session.characterId) {
-          // Save character state
-          this.database.saveCharacter(player.toCharacterData());
-        }
+    // Vaults are created on entry
+    const isOwnVault = instanceId === instanceIdFor({ type: 'vault', accountId: session.accountId });
+    if (!isOwnVault && !this.shards.hasInstance(instanceId)) return;
 
-        // Clean up vault instance if empty
-        if (instance.type === 'vault' && instance.getPlayerCount() === 0 && session.accountId) {
-          this.gameLoop.removeInstance(instance.id);
-          this.vaultInstances.delete(session.accountId);
-          console.log(`Cleaned up vault instance for account ${session.accountId}`);
-        }
-      }
-      this.playerToClient.delete(session.playerId);
+    this.shards.send(session.instanceId, { type: 'handoffPlayer', playerId, instanceId });
+  }
+
+  // A shard let go of a player; pass it on to the shard owning the target
+  private handleHandoff(player: PlayerState, instanceId: string): void {
+    const playerId = player.character.id;
+    const ws = this.playerToClient.get(playerId);
+    const session = ws && this.clients.get(ws);
+    const detached = this.detachedPlayers.get(player.character.id);
+
+    if (session) {
+      session.instanceId = instanceId;
+    } else if (detached) {
+      // The connection dropped during the handoff
+      detached.instanceId = instanceId;
+      player.detached = true;
+    } else {
+      // Released during the handoff
+      this.saveCharacter(player.character);
+      return;
+    }
+
+    const vault = { type: 'vault', accountId: player.accountId } as const;
+    if (instanceId === instanceIdFor(vault)) {
+      this.shards.addPlayer(player, instanceId, vault, this.getVaultItems(player.accountId));
+    } else if (!this.shards.addPlayer(player, instanceId)) {
+      this.handleHandoff(player, NEXUS_INSTANCE_ID);
     }
   }
 
-  handlePlayerDeath(player: PlayerEntity): void {
-    // Mark character as dead in database
-    this.database.killCharacter(player.characterId);
+  private handlePlayerDeath(playerId: string, character: Character, events: ItemEvent[]): void {
+    // Mark the character dead together with the items it died holding, which
+    // may not have been saved yet
+    this.commitItems({
+      characters: [{ ...character, alive: false, deathTime: Date.now() }],
+      vaults: [],
+      events,
+    });
 
     // Remove player from client tracking
-    const ws = this.playerToClient.get(player.id);
+    const ws = this.playerToClient.get(playerId);
     if (ws) {
       const session = this.clients.get(ws);
       if (session) {
         session.playerId = null;
+        session.playerName = null;
         session.characterId = null;
         session.instanceId = null;
+        session.resumeToken = null;
 
         // Send updated character list
         if (session.accountId) {
-          const characters = this.database.getAliveCharactersByAccount(session.accountId);
+          const characters = this.getAliveCharacters(session.accountId);
           this.send(ws, {
             type: 'characterList',
             data: {
@@ -1204,142 +1243,286 @@ export class GameServer {
                 level: c.level,
                 alive: c.alive,
               })),
-              maxCharacters: 2,
+              maxCharacters: this.config.gameplay.maxCharacters,
             },
           });
         }
       }
-      this.playerToClient.delete(player.id);
+      this.playerToClient.delete(playerId);
+    }
+  }
+
+  // Commits an item transaction after any still waiting from before. One
+  // that fails is kept and retried, since dropping it would leave its items
+  // where the last ordinary save put them.
+  private commitItems(transaction: ItemTransaction): void {
+    this.pendingItems.push(transaction);
+    this.retryItemCommits();
+  }
+
+  // Commits the waiting item transactions in order, stopping at the first
+  // that fails. Returns whether none are left.
+  private retryItemCommits(): boolean {
+    while (this.pendingItems.length > 0) {
+      const transaction = this.pendingItems[0];
+      try {
+        this.database.commitItems(transaction);
+      } catch (e) {
+        logger.error('Failed to commit items, will retry', {
+          error: e,
+          pending: this.pendingItems.length,
+          transaction,
+        });
+        return false;
+      }
+      this.pendingItems.shift();
+    }
+    return true;
+  }
+
+  // The newest state of a character in a waiting item transaction; the
+  // database copy is older
+  private pendingCharacter(characterId: string): Character | undefined {
+    for (let i = this.pendingItems.length - 1; i >= 0; i--) {
+      const character = this.pendingItems[i].characters.find((c) => c.id === characterId);
+      if (character) return character;
+    }
+    return undefined;
+  }
+
+  // A character or vault in a waiting item transaction is saved by updating
+  // the transaction, so its retry doesn't put the older state back over it
+  private saveCharacter(character: Character): void {
+    for (let i = this.pendingItems.length - 1; i >= 0; i--) {
+      const characters = this.pendingItems[i].characters;
+      const index = characters.findIndex((c) => c.id === character.id);
+      if (index === -1) continue;
+      // Dead is final; anything saved after the death is stale
+      if (characters[index].alive) characters[index] = character;
+      return;
+    }
+    try {
+      this.database.saveCharacter(character);
+    } catch (e) {
+      logger.error('Failed to save character, will retry', { error: e, characterId: character.id });
+      this.pendingItems.push({ characters: [character], vaults: [], events: [] });
     }
   }
 
-  sendToPlayer(playerId: string, message: ServerMessage): void {
+  private saveVaultItems(accountId: string, items: (string | null)[]): void {
+    for (let i = this.pendingItems.length - 1; i >= 0; i--) {
+      const vault = this.pendingItems[i].vaults.find((v) => v.accountId === accountId);
+      if (vault) {
+        vault.items = items;
+        return;
+      }
+    }
+    try {
+      this.database.saveVaultItems(accountId, items);
+    } catch (e) {
+      logger.error('Failed to save vault, will retry', { error: e, accountId });
+      this.pendingItems.push({ characters: [], vaults: [{ accountId, items }], events: [] });
+    }
+  }
+
+  private recordItemEvents(events: ItemEvent[]): void {
+    try {
+      this.database.recordItemEvents(events);
+    } catch (e) {
+      logger.error('Failed to record item events, will retry', { error: e, events: events.length });
+      this.pendingItems.push({ characters: [], vaults: [], events });
+    }
+  }
+
+  private getVaultItems(accountId: string): (string | null)[] {
+    for (let i = this.pendingItems.length - 1; i >= 0; i--) {
+      const vault = this.pendingItems[i].vaults.find((v) => v.accountId === accountId);
+      if (vault) return [...vault.items];
+    }
+    return this.database.getVaultItems(accountId);
+  }
+
+  private getAliveCharacters(accountId: string): Character[] {
+    return this.database
+      .getAliveCharactersByAccount(accountId)
+      .map((character) => this.pendingCharacter(character.id) ?? character)
+      .filter((character) => character.alive);
+  }
+
+  // Messages from shards arrive already encoded
+  private sendToPlayer(playerId: string, type: ServerMessage['type'], data: Uint8Array): void {
     const ws = this.playerToClient.get(playerId);
     if (ws && ws.readyState === WebSocket.OPEN) {
-      ws.send(encode(message));
+      ws.send(data);
+      this.metrics.messagesSent.inc({ type });
     }
   }
 
   private send(ws: WebSocket, message: ServerMessage): void {
     if (ws.readyState === WebSocket.OPEN) {
       ws.send(encode(message));
+      this.metrics.messagesSent.inc({ type: message.type });
+    }
+  }
+
+  // Gauges are read fresh on each scrape; shards report their tick times
+  private async collectMetrics(): Promise<void> {
+    this.metrics.sessions.set(this.clients.size);
+
+    const players = new Map<string, number>();
+    const countPlayer = (instanceId: string | null) => {
+      const type = instanceId ? this.shards.getInstanceType(instanceId) : undefined;
+      if (type) players.set(type, (players.get(type) ?? 0) + 1);
+    };
+    for (const session of this.clients.values()) {
+      if (session.playerId) countPlayer(session.instanceId);
+    }
+    for (const detached of this.detachedPlayers.values()) {
+      countPlayer(detached.instanceId);
+    }
+    this.metrics.players.reset();
+    for (const type of ['nexus', 'realm', 'dungeon', 'vault']) {
+      this.metrics.players.set(players.get(type) ?? 0, { instance_type: type });
+    }
+
+    this.metrics.dungeons.set(this.shards.countInstances('dungeon'));
+
+    for (const shard of await this.shards.profile(PROFILE_TIMEOUT_MS)) {
+      this.metrics.tickDuration.set(shard.tickDurations, { shard: String(shard.shard) });
     }
   }
 
   start(): void {
-    this.gameLoop.start();
+    this.shards.start();
+    this.http.start();
+    logger.info('Game server listening', { port: this.config.network.port });
+    this.status?.start();
     this.startAutoSave();
   }
 
   private startAutoSave(): void {
-    // Auto-save all active player characters every 30 seconds
+    // Periodically save all active player characters
     this.autoSaveInterval = setInterval(() => {
       this.saveAllPlayers();
-    }, 30000);
-    console.log('Auto-save enabled (every 30 seconds)');
+    }, this.config.persistence.autoSaveIntervalMs);
+    logger.info('Auto-save enabled', { intervalMs: this.config.persistence.autoSaveIntervalMs });
   }
 
-  private saveAllPlayers(): void {
-    let savedCount = 0;
-    for (const [, session] of this.clients) {
-      if (session.playerId && session.instanceId && session.characterId) {
-        const instance = this.gameLoop.getInstance(session.instanceId);
-        if (instance) {
-          const player = instance.getPlayer(session.playerId);
-          if (player) {
-            this.database.saveCharacter(player.toCharacterData());
-            savedCount++;
-          }
-        }
-      }
-    }
+  // Every character in play is saved, including ones held for a resume
+  private async saveAllPlayers(): Promise<void> {
+    this.retryItemCommits();
+    const savedCount = await this.shards.saveAll(SAVE_TIMEOUT_MS);
     if (savedCount > 0) {
-      console.log(`Auto-saved ${savedCount} player(s)`);
+      logger.info('Auto-saved players', { count: savedCount });
     }
   }
 
-  stop(): void {
+  async stop(): Promise<void> {
+    // Take the server out of rotation before anything shuts down
+    this.stopping = true;
+
     // Clear auto-save interval
     if (this.autoSaveInterval) {
       clearInterval(this.autoSaveInterval);
       this.autoSaveInterval = null;
     }
+    for (const { timer } of this.detachedPlayers.values()) {
+      clearTimeout(timer);
+    }
+    this.detachedPlayers.clear();
     // Save all players before shutdown
-    this.saveAllPlayers();
-    this.gameLoop.stop();
+    await this.saveAllPlayers();
+    await this.shards.stop();
+    if (!this.retryItemCommits()) {
+      logger.error('Item transactions could not be committed before shutdown', {
+        transactions: this.pendingItems,
+      });
+    }
+    await this.status?.stop();
+    // Open connections end with the process
     this.wss.close();
+    void this.http.stop();
   }
 
-  // Create a dungeon instance and spawn a portal to it at the given position
-  spawnDungeonPortal(sourceInstance: Instance, position: Vec2, dungeonType: string = 'demon_lair'): void {
-    const dungeonDef = DUNGEONS[dungeonType] || DUNGEONS['demon_lair'];
-
-    // Create new dungeon
-    const dungeonId = `dungeon-${uuid()}`;
-    const dungeonResult = GameMap.createDungeonMap(dungeonType);
-    const dungeonInstance = new Instance('dungeon', dungeonResult.map, dungeonId);
-    dungeonInstance.setGameServer(this);
-    this.gameLoop.addInstance(dungeonInstance);
-
-    // Store boss room center for return portal spawning
-    dungeonInstance.setBossRoomCenter(dungeonResult.bossRoomCenter);
-    dungeonInstance.setSourceInstanceId(sourceInstance.id);
-
-    // Spawn all enemies at once (dungeons don't respawn)
-    dungeonInstance.spawnInitialEnemies();
-
-    // Create portal to dungeon in realm (expires in 2 minutes)
-    const dungeonPortal = new PortalEntity(
-      position,
-      dungeonId,
-      'dungeon',
-      dungeonDef.portalName,
-      120 // 2 minutes lifetime
+  // Alive: every shard answers and its game loop has ticked recently
+  private async checkHealth(): Promise<StatusResponse> {
+    const shards = await this.shards.health(HEALTH_TIMEOUT_MS);
+    const healthy = shards.every(
+      (shard) => shard !== null && shard.msSinceLastTick !== null && shard.msSinceLastTick <= MAX_MS_SINCE_TICK
+    );
+    return jsonResponse(
+      {
+        status: healthy ? 'ok' : 'unhealthy',
+        shards: shards.map((shard, index) =>
+          shard === null
+            ? { shard: index, responding: false }
+            : {
+                shard: index,
+                responding: true,
+                tick: shard.tick,
+                msSinceLastTick: shard.msSinceLastTick === null ? null : Math.round(shard.msSinceLastTick),
+              }
+        ),
+      },
+      healthy ? 200 : 503
     );
-    sourceInstance.addPortal(dungeonPortal);
+  }
 
-    console.log(`Spawned ${dungeonDef.name} portal at (${position.x.toFixed(1)}, ${position.y.toFixed(1)}) -> ${dungeonId}`);
+  // Ready for players: the database is open, the nexus and realm exist and
+  // the server isn't shutting down
+  private checkReadiness(): StatusResponse {
+    const checks = {
+      database: this.database.isReady(),
+      nexus: this.shards.getInstanceType(NEXUS_INSTANCE_ID) !== undefined,
+      realm: this.shards.getInstanceType(REALM_INSTANCE_ID) !== undefined,
+      accepting: !this.stopping,
+    };
+    const ready = Object.values(checks).every(Boolean);
+    return jsonResponse({ status: ready ? 'ready' : 'not ready', checks }, ready ? 200 : 503);
   }
 
-  // Called when dungeon boss is killed - spawn return portal
-  onDungeonBossKilled(dungeonInstance: Instance, bossPosition: Vec2): void {
-    // Credit all players in the dungeon with a dungeon clear
-    for (const player of dungeonInstance.getAllPlayers()) {
-      player.dungeonsClearedCount++;
-    }
-
-    // Get source instance (realm)
-    const sourceInstanceId = dungeonInstance.getSourceInstanceId();
-    if (!sourceInstanceId) {
-      // Fallback: spawn portal to nexus
-      const returnPortal = new PortalEntity(
-        bossPosition,
-        'nexus-main',
-        'nexus',
-        'Return Portal'
-      );
-      dungeonInstance.addPortal(returnPortal);
-      return;
+  // The item ledger, filtered by any of player (username), account,
+  // character and item, newest first
+  private queryItemHistory(query: URLSearchParams): StatusResponse {
+    let accountId = query.get('account') ?? undefined;
+    const player = query.get('player');
+    if (player) {
+      const account = this.database.getAccountByUsername(player);
+      if (!account) return jsonResponse({ error: `Unknown player: ${player}` }, 404);
+      accountId = account.id;
     }
 
-    // Spawn permanent return portal to realm at boss room
-    const returnPortal = new PortalEntity(
-      bossPosition,
-      sourceInstanceId,
-      sourceInstanceId === 'nexus-main' ? 'nexus' : 'realm',
-      'Return Portal'
-    );
-    dungeonInstance.addPortal(returnPortal);
+    const limit = query.has('limit') ? Number(query.get('limit')) : DEFAULT_ITEM_HISTORY;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ITEM_HISTORY) {
+      return jsonResponse({ error: `limit must be an integer from 1 to ${MAX_ITEM_HISTORY}` }, 400);
+    }
 
-    console.log(`Boss killed! Spawned return portal in ${dungeonInstance.id}`);
+    const events = this.database.getItemHistory({
+      accountId,
+      characterId: query.get('character') ?? undefined,
+      itemId: query.get('item') ?? undefined,
+      limit,
+    });
+    return jsonResponse({ events });
   }
 
-  // Clean up empty dungeon instances
-  cleanupDungeon(dungeonId: string): void {
-    const instance = this.gameLoop.getInstance(dungeonId);
-    if (instance && instance.type === 'dungeon' && instance.getPlayerCount() === 0) {
-      this.gameLoop.removeInstance(dungeonId);
-      console.log(`Cleaned up empty dungeon: ${dungeonId}`);
+  // Reported by shards when a player moved further than walking and
+  // sanctioned teleports allow
+  private reportPositionAnomaly(instanceId: string, anomaly: PositionAnomaly): void {
+    this.positionAnomalies.push({ ...anomaly, instanceId });
+    if (this.positionAnomalies.length > MAX_POSITION_ANOMALIES) {
+      this.positionAnomalies.shift();
     }
+    const ws = this.playerToClient.get(anomaly.playerId);
+    const log = (ws && this.clients.get(ws)?.log) ?? logger;
+    const round = (value: number) => Math.round(value * 100) / 100;
+    log.warn('Position anomaly', {
+      instanceId,
+      playerName: anomaly.playerName,
+      distance: round(anomaly.distance),
+      allowed: round(anomaly.allowed),
+      from: { x: round(anomaly.from.x), y: round(anomaly.from.y) },
+      to: { x: round(anomaly.to.x), y: round(anomaly.to.y) },
+    });
   }
 }
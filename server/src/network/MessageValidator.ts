@@ -0,0 +1,197 @@
+import { ClientMessage, VAULT_SIZE } from '@rotmg/shared';
+
+/**
+ * Declarative runtime validation for decoded client messages.
+ * Every ClientMessage variant must have a schema below; the mapped types make
+ * the compiler reject a missing variant or a schema that doesn't match its payload.
+ */
+
+interface NumberSchema {
+  kind: 'number';
+  min: number;
+  max: number;
+  integer: boolean;
+}
+
+interface StringSchema {
+  kind: 'string';
+  maxLength: number;
+  oneOf?: readonly string[];
+}
+
+interface BooleanSchema {
+  kind: 'boolean';
+}
+
+interface ArraySchema<T> {
+  kind: 'array';
+  items: Schema<T>;
+  maxLength: number;
+}
+
+interface ObjectSchema<T> {
+  kind: 'object';
+  fields: { [K in keyof T]-?: Schema<T[K]> };
+}
+
+// Tuple wrapping stops unions like `string | null` from distributing
+type Schema<T> = [T] extends [number]
+  ? NumberSchema
+  : [T] extends [string]
+    ? StringSchema
+    : [T] extends [boolean]
+      ? BooleanSchema
+      : [T] extends [(infer U)[]]
+        ? ArraySchema<U>
+        : [T] extends [object]
+          ? ObjectSchema<T>
+          : never;
+
+// Erased form used by the validator itself
+type AnySchema =
+  | NumberSchema
+  | StringSchema
+  | BooleanSchema
+  | { kind: 'array'; items: AnySchema; maxLength: number }
+  | { kind: 'object'; fields: Record<string, AnySchema> };
+
+type MessageType = ClientMessage['type'];
+type PayloadOf<T extends MessageType> = Extract<ClientMessage, { type: T }> extends { data: infer D } ? D : undefined;
+type PayloadSchema<T extends MessageType> = PayloadOf<T> extends undefined ? null : Schema<PayloadOf<T>>;
+
+// Schema builders
+function int(min: number, max: number): NumberSchema {
+  return { kind: 'number', min, max, integer: true };
+}
+
+function num(min: number = -Number.MAX_VALUE, max: number = Number.MAX_VALUE): NumberSchema {
+  return { kind: 'number', min, max, integer: false };
+}
+
+function str(maxLength: number, oneOf?: readonly string[]): StringSchema {
+  return { kind: 'string', maxLength, oneOf };
+}
+
+function bool(): BooleanSchema {
+  return { kind: 'boolean' };
+}
+
+// Builders keep the concrete shape; the SCHEMAS annotation checks it against the payload type
+function arr<I extends AnySchema>(items: I, maxLength: number): { kind: 'array'; items: I; maxLength: number } {
+  return { kind: 'array', items, maxLength };
+}
+
+function obj<F extends Record<string, AnySchema>>(fields: F): { kind: 'object'; fields: F } {
+  return { kind: 'object', fields };
+}
+
+// Equipment slots 0-3 followed by inventory slots 4-11
+const MAX_ITEM_SLOT = 11;
+const MAX_ID_LENGTH = 64;
+
+const SCHEMAS: { [T in MessageType]: PayloadSchema<T> } = {
+  hello: obj({
+    protocolVersion: int(0, 1_000_000),
+    features: arr(str(32), 32),
+  }),
+  input: obj({
+    seq: int(0, Number.MAX_SAFE_INTEGER),
+    duration: num(0, 1),
+    moveDirection: obj({ x: num(-1.5, 1.5), y: num(-1.5, 1.5) }),
+    aimAngle: num(),
+    shooting: bool(),
+  }),
+  shoot: obj({ aimAngle: num() }),
+  useAbility: null,
+  interact: null,
+  pickupLoot: obj({ lootId: str(MAX_ID_LENGTH) }),
+  dropItem: obj({ slot: int(0, MAX_ITEM_SLOT) }),
+  swapItems: obj({ from: int(0, MAX_ITEM_SLOT), to: int(0, MAX_ITEM_SLOT) }),
+  enterPortal: obj({ portalId: str(MAX_ID_LENGTH) }),
+  returnToNexus: null,
+  auth: obj({ username: str(20), password: str(100) }),
+  authToken: obj({ token: str(128) }),
+  resume: obj({ token: str(128) }),
+  logout: obj({ token: str(128) }),
+  register: obj({ username: str(20), password: str(100) }),
+  createCharacter: obj({ classId: str(32) }),
+  selectCharacter: obj({ characterId: str(MAX_ID_LENGTH) }),
+  chat: obj({ message: str(200) }),
+  interactVaultChest: null,
+  vaultTransfer: obj({
+    fromVault: bool(),
+    fromSlot: int(0, Math.max(VAULT_SIZE, 8) - 1),
+    toSlot: int(0, Math.max(VAULT_SIZE, 8) - 1),
+  }),
+  closeVault: null,
+  snapshotAck: obj({ tick: int(0, Number.MAX_SAFE_INTEGER) }),
+};
+
+// Returns a description of the first problem found, or null if the message is valid
+export function validateClientMessage(message: unknown): string | null {
+  if (!isPlainObject(message)) return 'message is not an object';
+
+  const type = message.type;
+  if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(SCHEMAS, type)) {
+    return `unknown message type ${JSON.stringify(type)}`.slice(0, 100);
+  }
+
+  const schema = SCHEMAS[type as MessageType] as AnySchema | null;
+  if (schema === null) {
+    return hasOnlyKeys(message, ['type']) ? null : `${type}: unexpected fields`;
+  }
+  if (!hasOnlyKeys(message, ['type', 'data'])) return `${type}: unexpected fields`;
+
+  const error = validateValue(message.data, schema, 'data');
+  return error ? `${type}: ${error}` : null;
+}
+
+function validateValue(value: unknown, schema: AnySchema, path: string): string | null {
+  switch (schema.kind) {
+    case 'number':
+      // typeof lets NaN and Infinity through, so check finiteness explicitly
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `${path} is not a finite number`;
+      if (schema.integer && !Number.isInteger(value)) return `${path} is not an integer`;
+      if (value < schema.min || value > schema.max) return `${path} is out of range`;
+      return null;
+
+    case 'string':
+      if (typeof value !== 'string') return `${path} is not a string`;
+      if (value.length > schema.maxLength) return `${path} is too long`;
+      if (schema.oneOf && !schema.oneOf.includes(value)) return `${path} is not an allowed value`;
+      return null;
+
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${path} is not a boolean`;
+
+    case 'array':
+      if (!Array.isArray(value)) return `${path} is not an array`;
+      if (value.length > schema.maxLength) return `${path} has too many items`;
+      for (let i = 0; i < value.length; i++) {
+        const error = validateValue(value[i], schema.items, `${path}[${i}]`);
+        if (error) return error;
+      }
+      return null;
+
+    case 'object': {
+      if (!isPlainObject(value)) return `${path} is not an object`;
+      if (!hasOnlyKeys(value, Object.keys(schema.fields))) return `${path} has unexpected fields`;
+      for (const [key, fieldSchema] of Object.entries(schema.fields)) {
+        const error = validateValue(value[key], fieldSchema, `${path}.${key}`);
+        if (error) return error;
+      }
+      return null;
+    }
+  }
+}
+
+// Rejects arrays, class instances and objects with a tampered prototype
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function hasOnlyKeys(value: Record<string, unknown>, allowed: string[]): boolean {
+  return Object.keys(value).every((key) => allowed.includes(key));
+}
@@ -0,0 +1,128 @@
+import { ClientMessage, INPUT_INTERVAL_MS } from '@rotmg/shared';
+
+/**
+ * Per-connection, per-message-type token buckets.
+ * Each message type has its own budget, so flooding one (e.g. chat) can't
+ * ride on the allowance of another (e.g. input). Messages over budget are
+ * dropped; repeated drops escalate to a warning and then a kick.
+ */
+
+type MessageType = ClientMessage['type'];
+
+export interface BucketConfig {
+  capacity: number; // burst size
+  refillPerSecond: number;
+}
+
+export type RateLimits = { [T in MessageType]: BucketConfig };
+
+export type RateLimitAction = 'allow' | 'drop' | 'warn' | 'kick';
+
+// Drops are counted over this window for escalation
+const STRIKE_WINDOW_MS = 10_000;
+// Drops within the window before the client is warned, then kicked
+const WARN_AFTER_STRIKES = 5;
+const KICK_AFTER_STRIKES = 50;
+
+// Messages the client sends at a steady rate queue up while the connection
+// stalls and then arrive together. Their buckets hold this long's worth, so
+// a burst no bigger than the time that passed isn't flooding (seconds).
+const STALL_ALLOWANCE = 15;
+
+// The client sends input on a fixed interval whatever the tick rate, plus an
+// early flush on each change of direction; it acks every snapshot, so acks
+// scale with the tick rate
+export function defaultRateLimits(tickRate: number): RateLimits {
+  const inputsPerSecond = 1000 / INPUT_INTERVAL_MS;
+  return {
+    hello: { capacity: 2, refillPerSecond: 0.2 },
+    input: { capacity: inputsPerSecond * STALL_ALLOWANCE, refillPerSecond: inputsPerSecond * 3 },
+    shoot: { capacity: 20, refillPerSecond: 20 },
+    useAbility: { capacity: 5, refillPerSecond: 5 },
+    interact: { capacity: 5, refillPerSecond: 5 },
+    pickupLoot: { capacity: 10, refillPerSecond: 10 },
+    dropItem: { capacity: 5, refillPerSecond: 4 },
+    swapItems: { capacity: 10, refillPerSecond: 5 },
+    enterPortal: { capacity: 3, refillPerSecond: 1 },
+    returnToNexus: { capacity: 3, refillPerSecond: 1 },
+    auth: { capacity: 5, refillPerSecond: 0.5 },
+    authToken: { capacity: 3, refillPerSecond: 0.5 },
+    resume: { capacity: 3, refillPerSecond: 0.5 },
+    logout: { capacity: 3, refillPerSecond: 0.5 },
+    register: { capacity: 3, refillPerSecond: 0.2 },
+    createCharacter: { capacity: 3, refillPerSecond: 0.5 },
+    selectCharacter: { capacity: 3, refillPerSecond: 0.5 },
+    chat: { capacity: 3, refillPerSecond: 1 },
+    interactVaultChest: { capacity: 5, refillPerSecond: 2 },
+    vaultTransfer: { capacity: 10, refillPerSecond: 5 },
+    closeVault: { capacity: 5, refillPerSecond: 2 },
+    snapshotAck: { capacity: tickRate * STALL_ALLOWANCE, refillPerSecond: tickRate },
+  };
+}
+
+// Check overrides such as {"chat":{"capacity":5,"refillPerSecond":2}}
+export function validateRateLimitOverrides(parsed: unknown): Partial<RateLimits> {
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Rate limit overrides must be an object');
+  }
+
+  const known = defaultRateLimits(1);
+  const overrides: Partial<RateLimits> = {};
+  for (const [type, value] of Object.entries(parsed)) {
+    if (!Object.prototype.hasOwnProperty.call(known, type)) {
+      throw new Error(`Unknown message type in rate limits: ${type}`);
+    }
+    const { capacity, refillPerSecond } = (value ?? {}) as Partial<BucketConfig>;
+    if (
+      typeof capacity !== 'number' || !(capacity >= 1) ||
+      typeof refillPerSecond !== 'number' || !(refillPerSecond > 0)
+    ) {
+      throw new Error(`Invalid rate limit for ${type}: needs capacity >= 1 and refillPerSecond > 0`);
+    }
+    overrides[type as MessageType] = { capacity, refillPerSecond };
+  }
+  return overrides;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export class RateLimiter {
+  private limits: RateLimits;
+  private buckets: Map<MessageType, Bucket> = new Map();
+  private strikes: number[] = []; // times of recent drops
+
+  constructor(limits: RateLimits) {
+    this.limits = limits;
+  }
+
+  check(type: MessageType, now: number = Date.now()): RateLimitAction {
+    const config = this.limits[type];
+    let bucket = this.buckets.get(type);
+    if (!bucket) {
+      bucket = { tokens: config.capacity, updatedAt: now };
+      this.buckets.set(type, bucket);
+    }
+
+    const elapsed = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(config.capacity, bucket.tokens + elapsed * config.refillPerSecond);
+    bucket.updatedAt = now;
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 'allow';
+    }
+
+    while (this.strikes.length > 0 && now - this.strikes[0] > STRIKE_WINDOW_MS) {
+      this.strikes.shift();
+    }
+    this.strikes.push(now);
+
+    if (this.strikes.length >= KICK_AFTER_STRIKES) return 'kick';
+    // Warn once on crossing the threshold rather than on every drop after it
+    if (this.strikes.length === WARN_AFTER_STRIKES) return 'warn';
+    return 'drop';
+  }
+}
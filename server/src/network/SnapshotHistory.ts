@@ -0,0 +1,151 @@
+import { WorldSnapshot, WorldSnapshotDelta, EntityDelta, EntityChange } from '@rotmg/shared';
+
+// Snapshots sent but not yet acknowledged are kept so an ack can promote one of
+// them to the new baseline. Older entries are dropped once this many are pending,
+// and snapshots are sent in full until the client acks again, since it may no
+// longer have the baseline either.
+const MAX_PENDING_SNAPSHOTS = 32;
+// Weight of each new sample in the smoothed round trip time
+const RTT_SMOOTHING = 0.125;
+
+/**
+ * Per-client snapshot bookkeeping for delta compression.
+ * Tracks the snapshots sent to one client and the last one it acknowledged,
+ * and produces deltas against that acknowledged baseline.
+ */
+export class SnapshotHistory {
+  private pending: Map<number, WorldSnapshot> = new Map();
+  private baseline: WorldSnapshot | null = null;
+  private roundTripTime: number | null = null;
+  private sentSinceAck: number = 0;
+
+  createDelta(snapshot: WorldSnapshot): WorldSnapshotDelta {
+    const base = this.sentSinceAck < MAX_PENDING_SNAPSHOTS ? this.baseline : null;
+    return diffSnapshots(base, snapshot);
+  }
+
+  record(snapshot: WorldSnapshot): void {
+    this.pending.set(snapshot.tick, snapshot);
+    this.sentSinceAck++;
+
+    // Drop the oldest entries if the client stopped acknowledging
+    while (this.pending.size > MAX_PENDING_SNAPSHOTS) {
+      const oldest = this.pending.keys().next().value as number;
+      this.pending.delete(oldest);
+    }
+  }
+
+  // Promote an acknowledged snapshot to the baseline.
+  // Returns false for unknown, duplicate or out-of-date acks.
+  acknowledge(tick: number): boolean {
+    const snapshot = this.pending.get(tick);
+    if (!snapshot) return false;
+
+    this.baseline = snapshot;
+    this.sentSinceAck = 0;
+
+    // Snapshots are acked on arrival, so the ack delay measures the round trip
+    const sample = Date.now() - snapshot.timestamp;
+    this.roundTripTime = this.roundTripTime === null
+      ? sample
+      : this.roundTripTime + (sample - this.roundTripTime) * RTT_SMOOTHING;
+
+    for (const pendingTick of this.pending.keys()) {
+      if (pendingTick <= tick) {
+        this.pending.delete(pendingTick);
+      }
+    }
+    return true;
+  }
+
+  // Smoothed round trip time in ms, 0 until the first ack
+  getRoundTripTime(): number {
+    return this.roundTripTime ?? 0;
+  }
+
+  // Round trip time carries over between instances since the link is the same
+  reset(): void {
+    this.pending.clear();
+    this.baseline = null;
+    this.sentSinceAck = 0;
+  }
+}
+
+export function diffSnapshots(base: WorldSnapshot | null, current: WorldSnapshot): WorldSnapshotDelta {
+  return {
+    tick: current.tick,
+    baseTick: base ? base.tick : null,
+    timestamp: current.timestamp,
+    instanceId: current.instanceId,
+    instanceType: current.instanceType,
+    lastProcessedInput: current.lastProcessedInput,
+    players: diffEntities(base?.players ?? [], current.players),
+    enemies: diffEntities(base?.enemies ?? [], current.enemies),
+    projectiles: diffEntities(base?.projectiles ?? [], current.projectiles),
+    loots: diffEntities(base?.loots ?? [], current.loots),
+    portals: diffEntities(base?.portals ?? [], current.portals),
+    vaultChests: diffEntities(base?.vaultChests ?? [], current.vaultChests),
+  };
+}
+
+function diffEntities<T extends { id: string }>(base: T[], current: T[]): EntityDelta<T> {
+  const delta: EntityDelta<T> = { added: [], changed: [], removed: [] };
+
+  const baseById = new Map<string, T>();
+  for (const entity of base) {
+    baseById.set(entity.id, entity);
+  }
+
+  for (const entity of current) {
+    const previous = baseById.get(entity.id);
+    if (!previous) {
+      delta.added.push(entity);
+      continue;
+    }
+    baseById.delete(entity.id);
+
+    // Only send the fields that changed since the baseline
+    let change: EntityChange<T> | null = null;
+    for (const key of Object.keys(entity) as (keyof T)[]) {
+      if (key === 'id') continue;
+      if (!valuesEqual(entity[key], previous[key])) {
+        if (!change) change = { id: entity.id } as EntityChange<T>;
+        change[key] = entity[key];
+      }
+    }
+    if (change) {
+      delta.changed.push(change);
+    }
+  }
+
+  // Anything left in the baseline is no longer visible to the client
+  for (const id of baseById.keys()) {
+    delta.removed.push(id);
+  }
+
+  return delta;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+
+  if (Array.isArray(a)) {
+    if (!Array.isArray(b) || a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) {
+      if (!valuesEqual(a[i], b[i])) return false;
+    }
+    return true;
+  }
+
+  const aKeys = Object.keys(a);
+  if (aKeys.length !== Object.keys(b).length) return false;
+  for (const key of aKeys) {
+    if (!valuesEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,66 @@
+import { WorldSnapshotDelta, PackedSnapshotDelta, StringTable, packEnemies, packProjectiles } from '@rotmg/shared';
+
+// How long a removed entity's handle can still be resolved, so deltas against
+// an older baseline can report the removal
+const RETIRED_HANDLE_MS = 10_000;
+
+/**
+ * Per-instance numeric handles for enemies and projectiles, used in place of
+ * their UUIDs by packed snapshots. Handles are never reused, so a client can
+ * treat one as the entity's id.
+ */
+export class EntityHandles {
+  private nextHandle: number = 1;
+  private live: Map<string, number> = new Map();
+  private retired: Map<string, { handle: number; retiredAt: number }> = new Map();
+
+  assign(id: string): void {
+    this.live.set(id, this.nextHandle++);
+  }
+
+  retire(id: string, now: number): void {
+    const handle = this.live.get(id);
+    if (handle === undefined) return;
+    this.live.delete(id);
+    this.retired.set(id, { handle, retiredAt: now });
+  }
+
+  lookup(id: string): number | null {
+    return this.live.get(id) ?? this.retired.get(id)?.handle ?? null;
+  }
+
+  prune(now: number): void {
+    // Entries are inserted in retirement order
+    for (const [id, entry] of this.retired) {
+      if (now - entry.retiredAt < RETIRED_HANDLE_MS) break;
+      this.retired.delete(id);
+    }
+  }
+}
+
+// Returns null if the delta mentions an entity whose handle has expired; the
+// caller should fall back to a delta without a baseline
+export function packSnapshotDelta(delta: WorldSnapshotDelta, handles: EntityHandles): PackedSnapshotDelta | null {
+  const strings = new StringTable();
+  const handleOf = (id: string) => handles.lookup(id);
+
+  const enemies = packEnemies(delta.enemies, handleOf, strings);
+  const projectiles = packProjectiles(delta.projectiles, handleOf, strings);
+  if (!enemies || !projectiles) return null;
+
+  return {
+    tick: delta.tick,
+    baseTick: delta.baseTick,
+    timestamp: delta.timestamp,
+    instanceId: delta.instanceId,
+    instanceType: delta.instanceType,
+    lastProcessedInput: delta.lastProcessedInput,
+    players: delta.players,
+    loots: delta.loots,
+    portals: delta.portals,
+    vaultChests: delta.vaultChests,
+    definitions: strings.strings,
+    enemies,
+    projectiles,
+  };
+}
@@ -0,0 +1,74 @@
+import { createServer, Server } from 'http';
+import { logger } from '../logging/Logger.js';
+
+export interface StatusResponse {
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+export type StatusHandler = (query: URLSearchParams) => StatusResponse | Promise<StatusResponse>;
+
+export function jsonResponse(body: unknown, status: number = 200): StatusResponse {
+  return { status, contentType: 'application/json', body: JSON.stringify(body, null, 2) };
+}
+
+/**
+ * Plain HTTP server for operators. By default it only listens on the loopback
+ * interface, so nothing here is reachable from outside the machine; a null
+ * host listens on all of them. The game's WebSocket server can share it
+ * through `server`, so probes reach the same port as players.
+ */
+export class StatusServer {
+  readonly server: Server;
+  private routes: Map<string, StatusHandler> = new Map();
+  private port: number;
+  private host: string | null;
+
+  constructor(port: number, host: string | null = '127.0.0.1') {
+    this.port = port;
+    this.host = host;
+    this.server = createServer((req, res) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const path = url.pathname;
+      const handler = req.method === 'GET' ? this.routes.get(path) : undefined;
+      if (!handler) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not found\n');
+        return;
+      }
+
+      Promise.resolve()
+        .then(() => handler(url.searchParams))
+        .then(
+          (response) => {
+            res.writeHead(response.status, { 'Content-Type': response.contentType });
+            res.end(response.body);
+          },
+          (error) => {
+            logger.error('Status request failed', { path, error });
+            res.writeHead(500, { 'Content-Type': 'text/plain' });
+            res.end('Internal error\n');
+          }
+        );
+    });
+  }
+
+  route(path: string, handler: StatusHandler): void {
+    this.routes.set(path, handler);
+  }
+
+  start(): void {
+    this.server.listen(this.port, this.host ?? undefined, () => {
+      logger.info('HTTP endpoints listening', {
+        routes: [...this.routes.keys()].join(','),
+        host: this.host,
+        port: this.port,
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+}
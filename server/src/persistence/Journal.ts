@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+
+export type SqlParam = string | number | null;
+
+export interface JournalStatement {
+  sql: string;
+  params: SqlParam[];
+}
+
+// One write to the database, as run, or the writes of one transaction. An
+// entry is a single line, so a crash keeps all of a transaction or none of it.
+export type JournalEntry = { seq: number } & (JournalStatement | { batch: JournalStatement[] });
+
+/**
+ * Append-only log of the writes made since the database file was last
+ * written. Each write is appended before the call that made it returns, so
+ * it survives the process crashing; the file is fsynced once per turn of the
+ * event loop rather than per write. On startup the entries newer than the
+ * database file are run again, and the log starts over after every flush.
+ */
+export class Journal {
+  private path: string;
+  private fd: number | null = null;
+  private size: number = 0; // bytes of whole entries in the file
+  private syncQueued: boolean = false;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  // Entries in the order they were written. A crash can leave the last line
+  // half written; it and anything after it are skipped.
+  read(): { entries: JournalEntry[]; torn: boolean } {
+    if (!fs.existsSync(this.path)) return { entries: [], torn: false };
+
+    const entries: JournalEntry[] = [];
+    for (const line of fs.readFileSync(this.path, 'utf-8').split('\n')) {
+      if (line === '') continue;
+      try {
+        entries.push(JSON.parse(line) as JournalEntry);
+      } catch {
+        return { entries, torn: true };
+      }
+    }
+    return { entries, torn: false };
+  }
+
+  // Throws if the entry couldn't be written, leaving the file as it was
+  append(entry: JournalEntry): void {
+    const fd = this.open();
+    const line = Buffer.from(JSON.stringify(entry) + '\n');
+    try {
+      let written = 0;
+      while (written < line.length) {
+        written += fs.writeSync(fd, line, written);
+      }
+    } catch (e) {
+      // Cut off the part that made it, or every later entry would follow a
+      // torn line and be skipped on replay
+      try {
+        fs.ftruncateSync(fd, this.size);
+      } catch {
+        // The replay still stops at the torn line
+      }
+      throw e;
+    }
+    this.size += line.length;
+
+    if (!this.syncQueued) {
+      this.syncQueued = true;
+      queueMicrotask(() => this.sync());
+    }
+  }
+
+  // Called once the database file holds everything in the journal
+  reset(): void {
+    const fd = this.open();
+    fs.ftruncateSync(fd, 0);
+    fs.fsyncSync(fd);
+    this.size = 0;
+  }
+
+  private open(): number {
+    if (this.fd === null) {
+      this.fd = fs.openSync(this.path, 'a');
+      this.size = fs.fstatSync(this.fd).size;
+    }
+    return this.fd;
+  }
+
+  close(): void {
+    if (this.fd === null) return;
+    this.sync();
+    fs.closeSync(this.fd);
+    this.fd = null;
+  }
+
+  private sync(): void {
+    this.syncQueued = false;
+    if (this.fd !== null) {
+      fs.fdatasyncSync(this.fd);
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { Account, Character } from '@rotmg/shared';
+import { GameMetrics } from '../metrics/Metrics.js';
+
+/**
+ * Accounts, sessions, characters and vaults, as the GameServer sees them.
+ * Backends:
+ * - sqljs: SQLite compiled to WebAssembly, held in memory and written to a
+ *   file with a journal in between. Needs no native code.
+ * - sqlite: native SQLite on a file in WAL mode; each write goes straight to
+ *   disk, so nothing is rewritten in bulk.
+ * - memory: native SQLite that never touches disk, for tests.
+ */
+
+export const STORE_BACKENDS = ['sqljs', 'sqlite', 'memory'] as const;
+export type StoreBackend = (typeof STORE_BACKENDS)[number];
+
+export function isStoreBackend(value: string): value is StoreBackend {
+  return (STORE_BACKENDS as readonly string[]).includes(value);
+}
+
+export interface StoreOptions {
+  backend: StoreBackend;
+  dbPath: string; // unused by the memory backend
+  flushIntervalMs: number; // how often the sqljs backend writes its file
+  sessionTtlMs: number; // how long a login token stays valid
+  itemLedgerDays: number; // how long item events are kept; 0 keeps them forever
+}
+
+// The items an account keeps in its vault
+export interface VaultItems {
+  accountId: string;
+  items: (string | null)[];
+}
+
+// How an item appeared, changed hands or disappeared
+export type ItemAction =
+  | 'starter' // came with a new character
+  | 'loot' // dropped by an enemy
+  | 'give' // created by an admin
+  | 'pickup' // ground -> character
+  | 'drop' // character -> ground
+  | 'toVault' // character -> vault
+  | 'fromVault' // vault -> character
+  | 'death' // lost with the character carrying it
+  | 'despawn'; // lost with a bag left on the ground
+
+// One entry in the item ledger. Items are bare ids, so the ledger tells
+// copies of an item apart only by who held them and when.
+export interface ItemEvent {
+  time: number;
+  itemId: string;
+  action: ItemAction;
+  source: string | null; // the enemy for loot and deaths, the admin for give
+  accountId: string | null; // null for items on the ground that nobody owns
+  characterId: string | null;
+  instanceId: string | null;
+}
+
+export interface ItemHistoryQuery {
+  accountId?: string;
+  characterId?: string;
+  itemId?: string;
+  limit: number;
+}
+
+/**
+ * Everywhere items ended up after moving between characters and vaults,
+ * and the ledger entries for the move. Characters are saved in full. Either
+ * every part is saved or none is, so an item can't be in two places at once
+ * or in none after a crash.
+ */
+export interface ItemTransaction {
+  characters: Character[];
+  vaults: VaultItems[];
+  events: ItemEvent[];
+}
+
+export interface PersistenceStore {
+  // Opens the store and brings its schema up to date. With `dryRun` the
+  // pending migrations are only tried, nothing is written, and the store
+  // can be read but not written.
+  init(dryRun?: boolean): Promise<void>;
+  close(): void;
+  // Opened and not yet closed
+  isReady(): boolean;
+
+  createAccount(username: string, password: string): Promise<Account | null>;
+  validateLogin(username: string, password: string): Promise<Account | null>;
+  getAccount(accountId: string): Account | null;
+  getAccountByUsername(username: string): Account | null;
+
+  // Returns the new login token
+  createSession(accountId: string): string | null;
+  validateSession(token: string): Account | null;
+  revokeSession(token: string): void;
+  revokeAllSessions(accountId: string): void;
+  cleanupExpiredSessions(): void;
+
+  createCharacter(accountId: string, name: string, classId: string): Character | null;
+  getCharacter(characterId: string): Character | null;
+  getCharactersByAccount(accountId: string): Character[];
+  getAliveCharactersByAccount(accountId: string): Character[];
+  saveCharacter(character: Character): void;
+
+  getVaultItems(accountId: string): (string | null)[];
+  saveVaultItems(accountId: string, vaultItems: (string | null)[]): void;
+
+  // Saves everything in the transaction atomically; throws, having saved
+  // nothing, if any of it fails
+  commitItems(transaction: ItemTransaction): void;
+
+  recordItemEvents(events: ItemEvent[]): void;
+  // Newest first
+  getItemHistory(query: ItemHistoryQuery): ItemEvent[];
+}
+
+// Backends are loaded on demand, so a native module is only needed when it
+// is used (Bun, for one, can't load better-sqlite3)
+export async function createStore(
+  options: StoreOptions,
+  metrics: GameMetrics | null = null
+): Promise<PersistenceStore> {
+  switch (options.backend) {
+    case 'sqljs': {
+      const { SqlJsStore } = await import('./SqlJsStore.js');
+      return new SqlJsStore(options, metrics);
+    }
+    case 'sqlite': {
+      const { SqliteStore } = await import('./SqliteStore.js');
+      return new SqliteStore(options, metrics);
+    }
+    case 'memory': {
+      const { MemoryStore } = await import('./SqliteStore.js');
+      return new MemoryStore(options, metrics);
+    }
+  }
+}
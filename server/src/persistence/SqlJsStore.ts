@@ -0,0 +1,251 @@
+import initSqlJs from 'sql.js';
+import type { Database as SqlJsDatabase } from 'sql.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GameMetrics } from '../metrics/Metrics.js';
+import { logger } from '../logging/Logger.js';
+import { Journal, JournalEntry, JournalStatement, SqlParam } from './Journal.js';
+import { tableExists } from './migrations.js';
+import { StoreOptions } from './PersistenceStore.js';
+import { SqlConnection, SqlRow, SqlStore } from './SqlStore.js';
+
+// Writes to a temporary file and renames it over the target, so a crash
+// leaves either the old file or the new one, never a mix of the two
+function writeFileAtomic(target: string, data: Uint8Array): void {
+  const temp = `${target}.tmp`;
+  const fd = fs.openSync(temp, 'w');
+  try {
+    fs.writeFileSync(fd, data);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(temp, target);
+
+  // The rename is only durable once the directory is synced. Not every
+  // platform can open a directory (Windows can't); the rename still holds.
+  try {
+    const dir = fs.openSync(path.dirname(target), 'r');
+    try {
+      fs.fsyncSync(dir);
+    } finally {
+      fs.closeSync(dir);
+    }
+  } catch {
+    // Best effort
+  }
+}
+
+class SqlJsConnection implements SqlConnection {
+  private db: SqlJsDatabase;
+
+  constructor(db: SqlJsDatabase) {
+    this.db = db;
+  }
+
+  run(sql: string, params: SqlParam[] = []): void {
+    this.db.run(sql, params);
+  }
+
+  all(sql: string, params: SqlParam[] = []): SqlRow[] {
+    const result = this.db.exec(sql, params);
+    if (result.length === 0) return [];
+    const { columns, values } = result[0];
+    return values.map((row) => Object.fromEntries(columns.map((column, i) => [column, row[i]])));
+  }
+}
+
+/**
+ * sql.js keeps the whole database in memory. Every write is also appended
+ * to a journal next to the database file, and the file itself is rewritten
+ * periodically (atomically), after which the journal starts over. A crash
+ * loses nothing written before it: on startup the journal entries the file
+ * doesn't include yet are run again. The schema is then brought up to date
+ * by the migrations in migrations.ts.
+ */
+export class SqlJsStore extends SqlStore {
+  private db: SqlJsDatabase | null = null;
+  private saveInterval: NodeJS.Timeout | null = null;
+  private journal: Journal;
+  private nextSeq: number = 1; // for the next journal entry
+  private flushedSeq: number = 0; // last journal entry included in the file
+  private batch: JournalStatement[] | null = null; // writes of the open transaction
+
+  constructor(options: StoreOptions, metrics: GameMetrics | null = null) {
+    super(options, metrics);
+    this.journal = new Journal(`${options.dbPath}.journal`);
+  }
+
+  async init(dryRun: boolean = false): Promise<void> {
+    const SQL = await initSqlJs();
+
+    // Load existing database or create new one
+    const existed = fs.existsSync(this.options.dbPath);
+    if (existed) {
+      const buffer = fs.readFileSync(this.options.dbPath);
+      this.db = new SQL.Database(buffer);
+    } else {
+      this.db = new SQL.Database();
+    }
+    this.conn = new SqlJsConnection(this.db);
+    this.readOnly = dryRun;
+
+    // The journal was written against the schema the file already has
+    const replayed = this.replayJournal();
+
+    const backup = async (from: number) => {
+      const backupPath = this.backupPath(from);
+      writeFileAtomic(backupPath, this.export());
+      return backupPath;
+    };
+    const migrated = await this.migrateSchema(dryRun, existed ? backup : null);
+
+    if (dryRun) return;
+    this.pruneItemLedger();
+    if (replayed || migrated) {
+      this.save(true);
+    }
+
+    // Write the file out periodically
+    this.saveInterval = setInterval(() => this.save(), this.options.flushIntervalMs);
+  }
+
+  // Runs the journal entries written after the file was last saved. Returns
+  // whether there was anything to clear out of the journal.
+  private replayJournal(): boolean {
+    const conn = this.conn;
+    if (!conn) return false;
+
+    // Databases from before the journal have no meta table, and no journal
+    if (tableExists(conn, 'meta')) {
+      const [row] = conn.all(`SELECT value FROM meta WHERE key = 'journal_seq'`);
+      this.flushedSeq = row ? Number(row.value) : 0;
+    }
+    this.nextSeq = this.flushedSeq + 1;
+
+    const { entries, torn } = this.journal.read();
+    let replayed = 0;
+    for (const entry of entries) {
+      // Entries at or below the saved sequence were written out before a
+      // crash stopped the journal from being cleared
+      if (entry.seq <= this.flushedSeq) continue;
+      try {
+        this.replay(entry);
+        replayed++;
+      } catch (e) {
+        logger.error('Failed to replay journal entry', { seq: entry.seq, error: e });
+      }
+      this.nextSeq = Math.max(this.nextSeq, entry.seq + 1);
+    }
+
+    if (torn) {
+      logger.warn('Journal ends in a partial entry from a crash, skipping it', { path: this.options.dbPath });
+    }
+    if (replayed > 0) {
+      logger.info('Replayed journal', { entries: replayed, path: this.options.dbPath });
+    }
+    return entries.length > 0 || torn;
+  }
+
+  private replay(entry: JournalEntry): void {
+    const conn = this.conn!;
+    if (!('batch' in entry)) {
+      conn.run(entry.sql, entry.params);
+      return;
+    }
+    conn.run('BEGIN');
+    try {
+      for (const { sql, params } of entry.batch) {
+        conn.run(sql, params);
+      }
+      conn.run('COMMIT');
+    } catch (e) {
+      conn.run('ROLLBACK');
+      throw e;
+    }
+  }
+
+  // Runs a statement that changes data and journals it, or holds it for the
+  // transaction's entry. It only commits once the journal has it, so memory
+  // never holds a change the journal lacks.
+  protected write(sql: string, params: SqlParam[]): void {
+    const conn = this.conn;
+    if (!conn) return;
+    if (this.batch) {
+      super.write(sql, params);
+      this.batch.push({ sql, params });
+      return;
+    }
+
+    conn.run('BEGIN');
+    try {
+      super.write(sql, params);
+      this.journal.append({ seq: this.nextSeq, sql, params });
+      conn.run('COMMIT');
+    } catch (e) {
+      conn.run('ROLLBACK');
+      throw e;
+    }
+    this.nextSeq++;
+  }
+
+  // The transaction's writes are journaled together just before it commits
+  protected transaction(run: () => void): void {
+    const batch: JournalStatement[] = [];
+    this.batch = batch;
+    try {
+      super.transaction(() => {
+        run();
+        if (batch.length > 0) {
+          this.journal.append({ seq: this.nextSeq, batch });
+        }
+      });
+    } finally {
+      this.batch = null;
+    }
+    if (batch.length > 0) {
+      this.nextSeq++;
+    }
+  }
+
+  // Writes the database file, unless nothing changed since the last time
+  save(force: boolean = false): void {
+    if (!this.db || this.readOnly) return;
+    if (!force && this.nextSeq - 1 === this.flushedSeq) return;
+
+    const dir = path.dirname(this.options.dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const seq = this.nextSeq - 1;
+    this.timed('flush', () => {
+      writeFileAtomic(this.options.dbPath, this.export());
+      this.journal.reset();
+    });
+    this.flushedSeq = seq;
+  }
+
+  // The database as a file, recording which journal entries it includes so
+  // they aren't replayed on top of it
+  private export(): Uint8Array {
+    const db = this.db!;
+    if (tableExists(this.conn!, 'meta')) {
+      db.run(`INSERT OR REPLACE INTO meta (key, value) VALUES ('journal_seq', ?)`, [String(this.nextSeq - 1)]);
+    }
+    return db.export();
+  }
+
+  close(): void {
+    if (this.saveInterval) {
+      clearInterval(this.saveInterval);
+    }
+    this.save();
+    this.journal.close();
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+      this.conn = null;
+    }
+  }
+}
@@ -0,0 +1,491 @@
+import bcrypt from 'bcryptjs';
+import { v4 as uuid } from 'uuid';
+import * as crypto from 'crypto';
+import { Account, Character, CLASSES, getStarterEquipment } from '@rotmg/shared';
+import { GameMetrics } from '../metrics/Metrics.js';
+import { logger } from '../logging/Logger.js';
+import { SqlParam } from './Journal.js';
+import { getSchemaVersion, LATEST_SCHEMA_VERSION, migrate, pendingMigrations } from './migrations.js';
+import {
+  ItemAction,
+  ItemEvent,
+  ItemHistoryQuery,
+  ItemTransaction,
+  PersistenceStore,
+  StoreOptions,
+} from './PersistenceStore.js';
+
+export type SqlRow = Record<string, SqlParam>;
+
+// What the stores and migrations need from a SQLite connection
+export interface SqlConnection {
+  run(sql: string, params?: SqlParam[]): void;
+  all(sql: string, params?: SqlParam[]): SqlRow[];
+}
+
+// Bcrypt hash of "dummy", compared against when the username doesn't exist
+// so a failed login takes as long either way
+const DUMMY_HASH = '$2a$10$N9qo8uLOickgx2ZMRZoMyeIjZAgcfl7p92ldGxad68LJZdL17lhWy';
+
+function rowToAccount(row: SqlRow): Account {
+  return {
+    id: row.id as string,
+    username: row.username as string,
+    passwordHash: row.password_hash as string,
+    createdAt: row.created_at as number,
+    vaultItems: JSON.parse(row.vault_items as string),
+  };
+}
+
+function rowToCharacter(row: SqlRow): Character {
+  return {
+    id: row.id as string,
+    accountId: row.account_id as string,
+    name: row.name as string,
+    classId: row.class_id as string,
+    level: row.level as number,
+    exp: row.exp as number,
+    hp: row.hp as number,
+    maxHp: row.max_hp as number,
+    mp: row.mp as number,
+    maxMp: row.max_mp as number,
+    attack: row.attack as number,
+    defense: row.defense as number,
+    speed: row.speed as number,
+    dexterity: row.dexterity as number,
+    vitality: row.vitality as number,
+    wisdom: row.wisdom as number,
+    equipment: JSON.parse(row.equipment as string),
+    inventory: JSON.parse(row.inventory as string),
+    alive: row.alive === 1,
+    createdAt: row.created_at as number,
+    deathTime: (row.death_time as number | null) ?? undefined,
+  };
+}
+
+function rowToItemEvent(row: SqlRow): ItemEvent {
+  return {
+    time: row.time as number,
+    itemId: row.item_id as string,
+    action: row.action as ItemAction,
+    source: row.source as string | null,
+    accountId: row.account_id as string | null,
+    characterId: row.character_id as string | null,
+    instanceId: row.instance_id as string | null,
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The queries shared by the SQLite backends. A backend opens a connection
+ * in init() and decides how writes reach disk.
+ */
+export abstract class SqlStore implements PersistenceStore {
+  protected conn: SqlConnection | null = null;
+  protected options: StoreOptions;
+  protected readOnly: boolean = false; // opened for a migration dry run
+  private metrics: GameMetrics | null;
+
+  constructor(options: StoreOptions, metrics: GameMetrics | null = null) {
+    this.options = options;
+    this.metrics = metrics;
+  }
+
+  abstract init(dryRun?: boolean): Promise<void>;
+  abstract close(): void;
+
+  isReady(): boolean {
+    return this.conn !== null;
+  }
+
+  // Records how long a write took, if metrics are enabled
+  protected timed(operation: string, write: () => void): void {
+    const start = performance.now();
+    write();
+    this.metrics?.dbSaveDuration.observe((performance.now() - start) / 1000, { operation });
+  }
+
+  // Runs a statement that changes data
+  protected write(sql: string, params: SqlParam[]): void {
+    if (!this.conn) return;
+    if (this.readOnly) throw new Error('Store was opened for a dry run');
+    this.conn.run(sql, params);
+  }
+
+  // Runs the writes `run` makes as one transaction: all of them are kept,
+  // or, if it throws, none
+  protected transaction(run: () => void): void {
+    if (!this.conn) return;
+    if (this.readOnly) throw new Error('Store was opened for a dry run');
+    this.conn.run('BEGIN');
+    try {
+      run();
+      this.conn.run('COMMIT');
+    } catch (e) {
+      this.conn.run('ROLLBACK');
+      throw e;
+    }
+  }
+
+  private get(sql: string, params: SqlParam[]): SqlRow | null {
+    return this.conn?.all(sql, params)[0] ?? null;
+  }
+
+  /**
+   * Runs the pending migrations, calling `backup` first (if given) with the
+   * version the schema is at. Returns whether any ran; with `dryRun` they
+   * are rolled back and nothing is backed up.
+   */
+  protected async migrateSchema(dryRun: boolean, backup: ((from: number) => Promise<string>) | null): Promise<boolean> {
+    if (!this.conn) return false;
+
+    const from = getSchemaVersion(this.conn);
+    const pending = pendingMigrations(this.conn);
+    if (pending.length === 0) return false;
+
+    logger.info(dryRun ? 'Schema migrations pending' : 'Migrating schema', {
+      from,
+      to: LATEST_SCHEMA_VERSION,
+      backend: this.options.backend,
+      path: this.options.dbPath,
+    });
+    if (backup && !dryRun) {
+      const backupPath = await backup(from);
+      logger.info('Backed up database before migrating', { path: backupPath });
+    }
+    migrate(this.conn, pending, dryRun);
+    return !dryRun;
+  }
+
+  protected backupPath(from: number): string {
+    return `${this.options.dbPath}.v${from}-${Date.now()}.bak`;
+  }
+
+  // Account methods
+  async createAccount(username: string, password: string): Promise<Account | null> {
+    if (!this.conn) return null;
+
+    if (this.get('SELECT id FROM accounts WHERE username = ?', [username])) return null;
+
+    const id = uuid();
+    const passwordHash = await bcrypt.hash(password, 10);
+    const createdAt = Date.now();
+
+    this.write(
+      `INSERT INTO accounts (id, username, password_hash, created_at, vault_items) VALUES (?, ?, ?, ?, ?)`,
+      [id, username, passwordHash, createdAt, '[]']
+    );
+
+    return {
+      id,
+      username,
+      passwordHash,
+      createdAt,
+      vaultItems: [],
+    };
+  }
+
+  async validateLogin(username: string, password: string): Promise<Account | null> {
+    if (!this.conn) return null;
+
+    const row = this.get(
+      `SELECT id, username, password_hash, created_at, vault_items FROM accounts WHERE username = ?`,
+      [username]
+    );
+
+    // Always perform bcrypt comparison, even for a username that doesn't
+    // exist, to prevent timing attacks
+    const valid = await bcrypt.compare(password, row ? (row.password_hash as string) : DUMMY_HASH);
+
+    // Only return account if user exists AND password is valid
+    if (!valid || !row) return null;
+    return rowToAccount(row);
+  }
+
+  getAccount(accountId: string): Account | null {
+    const row = this.get(
+      `SELECT id, username, password_hash, created_at, vault_items FROM accounts WHERE id = ?`,
+      [accountId]
+    );
+    return row ? rowToAccount(row) : null;
+  }
+
+  getAccountByUsername(username: string): Account | null {
+    const row = this.get(
+      `SELECT id, username, password_hash, created_at, vault_items FROM accounts WHERE username = ?`,
+      [username]
+    );
+    return row ? rowToAccount(row) : null;
+  }
+
+  // Session methods
+  createSession(accountId: string): string | null {
+    if (!this.conn) return null;
+
+    // Clean up expired sessions first
+    this.cleanupExpiredSessions();
+
+    // Generate cryptographically secure random token
+    const token = crypto.randomBytes(32).toString('hex');
+    const id = uuid();
+    const createdAt = Date.now();
+    const expiresAt = createdAt + this.options.sessionTtlMs;
+
+    this.write(
+      `INSERT INTO sessions (id, account_id, token, expires_at, created_at) VALUES (?, ?, ?, ?, ?)`,
+      [id, accountId, token, expiresAt, createdAt]
+    );
+
+    return token;
+  }
+
+  validateSession(token: string): Account | null {
+    const row = this.get(
+      `SELECT s.expires_at, a.id, a.username, a.password_hash, a.created_at, a.vault_items
+       FROM sessions s
+       JOIN accounts a ON s.account_id = a.id
+       WHERE s.token = ?`,
+      [token]
+    );
+    if (!row) return null;
+
+    // Check if token is expired
+    if (Date.now() > (row.expires_at as number)) {
+      this.revokeSession(token);
+      return null;
+    }
+
+    return rowToAccount(row);
+  }
+
+  revokeSession(token: string): void {
+    this.write(`DELETE FROM sessions WHERE token = ?`, [token]);
+  }
+
+  revokeAllSessions(accountId: string): void {
+    this.write(`DELETE FROM sessions WHERE account_id = ?`, [accountId]);
+  }
+
+  cleanupExpiredSessions(): void {
+    this.write(`DELETE FROM sessions WHERE expires_at < ?`, [Date.now()]);
+  }
+
+  // Character methods
+  createCharacter(accountId: string, name: string, classId: string): Character | null {
+    if (!this.conn) return null;
+
+    const cls = CLASSES[classId];
+    if (!cls) return null;
+
+    const id = uuid();
+    const equipment = getStarterEquipment(classId);
+    const inventory = new Array(8).fill(null);
+
+    const character: Character = {
+      id,
+      accountId,
+      name,
+      classId,
+      level: 1,
+      exp: 0,
+      hp: cls.baseHp,
+      maxHp: cls.baseHp,
+      mp: cls.baseMp,
+      maxMp: cls.baseMp,
+      attack: cls.baseAttack,
+      defense: cls.baseDefense,
+      speed: cls.baseSpeed,
+      dexterity: cls.baseDexterity,
+      vitality: cls.baseVitality,
+      wisdom: cls.baseWisdom,
+      equipment,
+      inventory,
+      alive: true,
+      createdAt: Date.now(),
+    };
+
+    const starterItems = equipment.filter((itemId): itemId is string => itemId !== null);
+    this.transaction(() => {
+      this.insertCharacter(character);
+      this.insertItemEvents(
+        starterItems.map((itemId) => ({
+          time: character.createdAt,
+          itemId,
+          action: 'starter',
+          source: null,
+          accountId,
+          characterId: id,
+          instanceId: null,
+        }))
+      );
+    });
+
+    return character;
+  }
+
+  private insertCharacter(character: Character): void {
+    this.write(
+      `INSERT INTO characters (
+        id, account_id, name, class_id, level, exp,
+        hp, max_hp, mp, max_mp,
+        attack, defense, speed, dexterity, vitality, wisdom,
+        equipment, inventory, alive, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        character.id,
+        character.accountId,
+        character.name,
+        character.classId,
+        character.level,
+        character.exp,
+        character.hp,
+        character.maxHp,
+        character.mp,
+        character.maxMp,
+        character.attack,
+        character.defense,
+        character.speed,
+        character.dexterity,
+        character.vitality,
+        character.wisdom,
+        JSON.stringify(character.equipment),
+        JSON.stringify(character.inventory),
+        character.alive ? 1 : 0,
+        character.createdAt,
+      ]
+    );
+  }
+
+  getCharacter(characterId: string): Character | null {
+    const row = this.get('SELECT * FROM characters WHERE id = ?', [characterId]);
+    return row ? rowToCharacter(row) : null;
+  }
+
+  getCharactersByAccount(accountId: string): Character[] {
+    if (!this.conn) return [];
+    return this.conn.all('SELECT * FROM characters WHERE account_id = ?', [accountId]).map(rowToCharacter);
+  }
+
+  getAliveCharactersByAccount(accountId: string): Character[] {
+    if (!this.conn) return [];
+    return this.conn
+      .all('SELECT * FROM characters WHERE account_id = ? AND alive = 1', [accountId])
+      .map(rowToCharacter);
+  }
+
+  saveCharacter(character: Character): void {
+    this.timed('character', () => this.updateCharacter(character));
+  }
+
+  private updateCharacter(character: Character): void {
+    this.write(
+      `UPDATE characters SET
+        level = ?, exp = ?,
+        hp = ?, max_hp = ?, mp = ?, max_mp = ?,
+        attack = ?, defense = ?, speed = ?, dexterity = ?, vitality = ?, wisdom = ?,
+        equipment = ?, inventory = ?,
+        alive = ?, death_time = ?
+      WHERE id = ?`,
+      [
+        character.level,
+        character.exp,
+        character.hp,
+        character.maxHp,
+        character.mp,
+        character.maxMp,
+        character.attack,
+        character.defense,
+        character.speed,
+        character.dexterity,
+        character.vitality,
+        character.wisdom,
+        JSON.stringify(character.equipment),
+        JSON.stringify(character.inventory),
+        character.alive ? 1 : 0,
+        character.deathTime || null,
+        character.id,
+      ]
+    );
+  }
+
+  // Vault methods
+  getVaultItems(accountId: string): (string | null)[] {
+    const row = this.get(`SELECT vault_items FROM accounts WHERE id = ?`, [accountId]);
+    return row ? JSON.parse(row.vault_items as string) : [];
+  }
+
+  saveVaultItems(accountId: string, vaultItems: (string | null)[]): void {
+    this.timed('vault', () => this.updateVault(accountId, vaultItems));
+  }
+
+  private updateVault(accountId: string, vaultItems: (string | null)[]): void {
+    this.write(`UPDATE accounts SET vault_items = ? WHERE id = ?`, [JSON.stringify(vaultItems), accountId]);
+  }
+
+  commitItems(transaction: ItemTransaction): void {
+    this.timed('items', () => this.transaction(() => {
+      for (const character of transaction.characters) {
+        this.updateCharacter(character);
+      }
+      for (const vault of transaction.vaults) {
+        this.updateVault(vault.accountId, vault.items);
+      }
+      this.insertItemEvents(transaction.events);
+    }));
+  }
+
+  // Item ledger methods
+  recordItemEvents(events: ItemEvent[]): void {
+    if (events.length === 0) return;
+    this.timed('ledger', () => this.transaction(() => this.insertItemEvents(events)));
+  }
+
+  private insertItemEvents(events: ItemEvent[]): void {
+    for (const event of events) {
+      this.write(
+        `INSERT INTO item_events (time, item_id, action, source, account_id, character_id, instance_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          event.time,
+          event.itemId,
+          event.action,
+          event.source,
+          event.accountId,
+          event.characterId,
+          event.instanceId,
+        ]
+      );
+    }
+  }
+
+  getItemHistory(query: ItemHistoryQuery): ItemEvent[] {
+    if (!this.conn) return [];
+
+    const conditions: string[] = [];
+    const params: SqlParam[] = [];
+    if (query.accountId !== undefined) {
+      conditions.push('account_id = ?');
+      params.push(query.accountId);
+    }
+    if (query.characterId !== undefined) {
+      conditions.push('character_id = ?');
+      params.push(query.characterId);
+    }
+    if (query.itemId !== undefined) {
+      conditions.push('item_id = ?');
+      params.push(query.itemId);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    return this.conn
+      .all(`SELECT * FROM item_events ${where} ORDER BY id DESC LIMIT ?`, [...params, query.limit])
+      .map(rowToItemEvent);
+  }
+
+  // Drops ledger entries older than the configured retention
+  protected pruneItemLedger(): void {
+    if (this.options.itemLedgerDays === 0 || this.readOnly) return;
+    this.write(`DELETE FROM item_events WHERE time < ?`, [Date.now() - this.options.itemLedgerDays * DAY_MS]);
+  }
+}
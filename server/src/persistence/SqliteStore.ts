@@ -0,0 +1,94 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SqlParam } from './Journal.js';
+import { SqlConnection, SqlRow, SqlStore } from './SqlStore.js';
+
+class SqliteConnection implements SqlConnection {
+  private db: Database.Database;
+  private statements = new Map<string, Database.Statement>(); // prepared once per query
+
+  constructor(db: Database.Database) {
+    this.db = db;
+  }
+
+  private prepare(sql: string): Database.Statement {
+    let statement = this.statements.get(sql);
+    if (!statement) {
+      statement = this.db.prepare(sql);
+      this.statements.set(sql, statement);
+    }
+    return statement;
+  }
+
+  run(sql: string, params: SqlParam[] = []): void {
+    this.prepare(sql).run(params);
+  }
+
+  all(sql: string, params: SqlParam[] = []): SqlRow[] {
+    return this.prepare(sql).all(params) as SqlRow[];
+  }
+}
+
+/**
+ * Native SQLite on a file, in WAL mode: each write is committed to the
+ * write-ahead log as it happens, and readers never wait on the writer.
+ * With synchronous=NORMAL a commit survives the process crashing; a power
+ * cut can lose the last few, but never corrupts the file.
+ */
+export class SqliteStore extends SqlStore {
+  protected db: Database.Database | null = null;
+
+  async init(dryRun: boolean = false): Promise<void> {
+    const dbPath = this.options.dbPath;
+    const journal = `${dbPath}.journal`;
+    if (fs.existsSync(journal) && fs.statSync(journal).size > 0) {
+      throw new Error(
+        `${journal} holds writes the sqljs backend hasn't saved yet; ` +
+          'start once with the sqljs backend and shut down cleanly before switching'
+      );
+    }
+
+    const existed = fs.existsSync(dbPath);
+    if (dryRun && !existed) {
+      // Nothing to read, and a dry run mustn't create the file
+      this.db = new Database(':memory:');
+    } else {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+      this.db = new Database(dbPath);
+      if (!dryRun) {
+        this.db.pragma('journal_mode = WAL');
+        this.db.pragma('synchronous = NORMAL');
+      }
+    }
+    this.conn = new SqliteConnection(this.db);
+    this.readOnly = dryRun;
+
+    const db = this.db;
+    await this.migrateSchema(dryRun, existed ? async (from) => {
+      const backupPath = this.backupPath(from);
+      await db.backup(backupPath);
+      return backupPath;
+    } : null);
+    this.pruneItemLedger();
+  }
+
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+      this.conn = null;
+    }
+  }
+}
+
+// Native SQLite held in memory: every test gets a fresh, isolated database
+// with the real schema, and nothing is left behind
+export class MemoryStore extends SqliteStore {
+  async init(dryRun: boolean = false): Promise<void> {
+    this.db = new Database(':memory:');
+    this.conn = new SqliteConnection(this.db);
+    this.readOnly = dryRun;
+    await this.migrateSchema(dryRun, null);
+  }
+}
@@ -0,0 +1,194 @@
+import { getStarterEquipment } from '@rotmg/shared';
+import { logger } from '../logging/Logger.js';
+import type { SqlConnection } from './SqlStore.js';
+
+/**
+ * Schema changes, applied in order on startup. The schema_version table
+ * records which have run. To change the schema, add a migration with the
+ * next version number at the end; never edit one that has shipped, since
+ * existing databases have already run it.
+ */
+
+export interface Migration {
+  version: number;
+  description: string;
+  up(db: SqlConnection): void;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create accounts, characters, sessions and meta tables',
+    // IF NOT EXISTS, since databases from before versioning already have them
+    up(db) {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS accounts (
+          id TEXT PRIMARY KEY,
+          username TEXT UNIQUE NOT NULL,
+          password_hash TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          vault_items TEXT DEFAULT '[]'
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS characters (
+          id TEXT PRIMARY KEY,
+          account_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          class_id TEXT NOT NULL,
+          level INTEGER DEFAULT 1,
+          exp INTEGER DEFAULT 0,
+          hp INTEGER NOT NULL,
+          max_hp INTEGER NOT NULL,
+          mp INTEGER NOT NULL,
+          max_mp INTEGER NOT NULL,
+          attack INTEGER NOT NULL,
+          defense INTEGER NOT NULL,
+          speed INTEGER NOT NULL,
+          dexterity INTEGER NOT NULL,
+          vitality INTEGER NOT NULL,
+          wisdom INTEGER NOT NULL,
+          equipment TEXT NOT NULL,
+          inventory TEXT NOT NULL,
+          alive INTEGER DEFAULT 1,
+          created_at INTEGER NOT NULL,
+          death_time INTEGER
+        )
+      `);
+
+      db.run(`CREATE INDEX IF NOT EXISTS idx_characters_account ON characters(account_id)`);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          account_id TEXT NOT NULL,
+          token TEXT UNIQUE NOT NULL,
+          expires_at INTEGER NOT NULL,
+          created_at INTEGER NOT NULL,
+          FOREIGN KEY (account_id) REFERENCES accounts (id)
+        )
+      `);
+
+      db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_token ON sessions(token)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_account ON sessions(account_id)`);
+
+      // Bookkeeping, such as how much of the journal the file includes
+      db.run(`
+        CREATE TABLE IF NOT EXISTS meta (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        )
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: 'Give characters created before starter equipment their starter gear',
+    // Used to be done every time a character was loaded, which also refilled
+    // slots a player had emptied on purpose
+    up(db) {
+      for (const row of db.all(`SELECT id, class_id, equipment FROM characters`)) {
+        const equipment: (string | null)[] = JSON.parse(row.equipment as string);
+        const starter = getStarterEquipment(row.class_id as string);
+        let changed = false;
+        for (let i = 0; i < starter.length; i++) {
+          if (equipment[i] == null && starter[i] !== null) {
+            equipment[i] = starter[i];
+            changed = true;
+          }
+        }
+        if (changed) {
+          db.run(`UPDATE characters SET equipment = ? WHERE id = ?`, [JSON.stringify(equipment), row.id]);
+        }
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Add the item ledger',
+    up(db) {
+      db.run(`
+        CREATE TABLE item_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          time INTEGER NOT NULL,
+          item_id TEXT NOT NULL,
+          action TEXT NOT NULL,
+          source TEXT,
+          account_id TEXT,
+          character_id TEXT,
+          instance_id TEXT
+        )
+      `);
+      db.run(`CREATE INDEX idx_item_events_account ON item_events(account_id, item_id)`);
+      db.run(`CREATE INDEX idx_item_events_character ON item_events(character_id, item_id)`);
+      db.run(`CREATE INDEX idx_item_events_item ON item_events(item_id)`);
+      db.run(`CREATE INDEX idx_item_events_time ON item_events(time)`);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function tableExists(db: SqlConnection, table: string): boolean {
+  return db.all(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`, [table]).length > 0;
+}
+
+// 0 for a new database, or one from before migrations existed
+export function getSchemaVersion(db: SqlConnection): number {
+  if (!tableExists(db, 'schema_version')) return 0;
+  const [row] = db.all(`SELECT MAX(version) AS version FROM schema_version`);
+  return (row?.version as number | null) ?? 0;
+}
+
+export function pendingMigrations(db: SqlConnection): Migration[] {
+  const current = getSchemaVersion(db);
+  if (current > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema is at version ${current}, newer than this server knows (${LATEST_SCHEMA_VERSION}); ` +
+        'upgrade the server or restore a backup'
+    );
+  }
+  return MIGRATIONS.filter((migration) => migration.version > current);
+}
+
+/**
+ * Runs the pending migrations, each in its own transaction, so a failure
+ * leaves the database at the last version that succeeded. With `dryRun`
+ * they all run in one transaction that is rolled back at the end, which
+ * checks that they would succeed without changing anything.
+ */
+export function migrate(db: SqlConnection, pending: Migration[], dryRun: boolean): void {
+  if (dryRun) db.run('BEGIN');
+  try {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS schema_version (
+        version INTEGER PRIMARY KEY,
+        description TEXT NOT NULL,
+        applied_at INTEGER NOT NULL
+      )
+    `);
+
+    for (const migration of pending) {
+      if (!dryRun) db.run('BEGIN');
+      try {
+        migration.up(db);
+        db.run(`INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)`, [
+          migration.version,
+          migration.description,
+          Date.now(),
+        ]);
+        if (!dryRun) db.run('COMMIT');
+      } catch (e) {
+        if (!dryRun) db.run('ROLLBACK');
+        throw new Error(`Migration ${migration.version} (${migration.description}) failed: ${(e as Error).message}`);
+      }
+      logger.info(dryRun ? 'Migration would apply' : 'Applied migration', {
+        version: migration.version,
+        description: migration.description,
+      });
+    }
+  } finally {
+    if (dryRun) db.run('ROLLBACK');
+  }
+}
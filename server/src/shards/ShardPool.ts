@@ -0,0 +1,354 @@
+import { Worker } from 'worker_threads';
+import { extname } from 'path';
+import { fileURLToPath } from 'url';
+import { PlayerState } from '../game/PlayerEntity.js';
+import { InstanceType } from '../instances/Instance.js';
+import { WorldShard, batchEvents } from './WorldShard.js';
+import {
+  ShardCommand,
+  ShardEvent,
+  ShardOptions,
+  ShardProfile,
+  ShardHealth,
+  InstanceSpec,
+  instanceIdFor,
+} from './ShardProtocol.js';
+import { logger } from '../logging/Logger.js';
+
+interface ShardChannel {
+  post(commands: ShardCommand[]): void;
+  close(): Promise<void>;
+}
+
+interface Shard {
+  index: number;
+  channel: ShardChannel;
+  outbox: ShardCommand[]; // commands posted this turn, sent as one batch
+  instances: number;
+  players: number;
+}
+
+interface PendingSave {
+  waiting: Set<number>; // indexes of shards yet to reply
+  count: number;
+  resolve: (count: number) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface PendingProfile {
+  waiting: Set<number>; // indexes of shards yet to reply
+  profiles: ShardProfile[];
+  resolve: (profiles: ShardProfile[]) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface PendingHealth {
+  remaining: number; // shards yet to reply
+  health: (ShardHealth | null)[]; // by shard index
+  resolve: (health: (ShardHealth | null)[]) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Runs the shard in this thread. Commands are still delivered after the
+// current turn, so both modes see the same ordering.
+class LocalChannel implements ShardChannel {
+  private shard: WorldShard;
+
+  constructor(options: ShardOptions, receive: (events: ShardEvent[]) => void) {
+    this.shard = new WorldShard(options, batchEvents(receive));
+  }
+
+  post(commands: ShardCommand[]): void {
+    queueMicrotask(() => {
+      for (const command of commands) {
+        this.shard.handle(command);
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    this.shard.stop();
+  }
+}
+
+class WorkerChannel implements ShardChannel {
+  private worker: Worker;
+
+  constructor(index: number, options: ShardOptions, receive: (events: ShardEvent[]) => void) {
+    this.worker = spawnShardWorker(options);
+    this.worker.on('message', receive);
+    this.worker.on('error', (error) => {
+      // Its instances and players are gone; carrying on without them would
+      // leave clients stranded, same as an uncaught error in one thread
+      logger.error('Shard crashed', { shard: index, error });
+      process.exit(1);
+    });
+  }
+
+  post(commands: ShardCommand[]): void {
+    this.worker.postMessage(commands);
+  }
+
+  async close(): Promise<void> {
+    await this.worker.terminate();
+  }
+}
+
+function spawnShardWorker(options: ShardOptions): Worker {
+  // worker.ts next to this file when run from source, worker.js once built
+  const extension = extname(fileURLToPath(import.meta.url));
+  const entry = new URL(`./worker${extension}`, import.meta.url);
+
+  // Node doesn't pass tsx's loader on to worker threads, so register it
+  // before loading the TypeScript entry. Bun runs TypeScript natively.
+  if (extension === '.ts' && !process.versions.bun) {
+    const bootstrap =
+      `import('tsx/esm/api').then((tsx) => { tsx.register(); return import(${JSON.stringify(entry.href)}); });`;
+    return new Worker(bootstrap, { eval: true, workerData: options });
+  }
+  return new Worker(entry, { workerData: options });
+}
+
+/**
+ * The GameServer's side of the world shards. Keeps track of which shard owns
+ * each instance so commands can be routed, places new instances on the least
+ * loaded shard, and passes shard events on to the GameServer.
+ *
+ * With zero workers there is a single shard running on the main thread.
+ */
+export class ShardPool {
+  private shards: Shard[] = [];
+  private routes: Map<string, Shard> = new Map(); // instanceId -> owning shard
+  private instanceTypes: Map<string, InstanceType> = new Map(); // of instances that exist
+  private pendingSaves: Map<number, PendingSave> = new Map();
+  private pendingProfiles: Map<number, PendingProfile> = new Map();
+  private pendingHealth: Map<number, PendingHealth> = new Map();
+  private nextRequestId: number = 1;
+  private onEvent: (event: ShardEvent) => void;
+
+  constructor(workers: number, options: ShardOptions, onEvent: (event: ShardEvent) => void) {
+    this.onEvent = onEvent;
+
+    const count = workers > 0 ? workers : 1;
+    for (let index = 0; index < count; index++) {
+      const receive = (events: ShardEvent[]) => this.receive(shard, events);
+      const channel = workers > 0 ? new WorkerChannel(index, options, receive) : new LocalChannel(options, receive);
+      const shard: Shard = { index, channel, outbox: [], instances: 0, players: 0 };
+      this.shards.push(shard);
+    }
+
+    logger.info(workers > 0 ? 'Running instances on worker threads' : 'Running instances on the main thread', {
+      workers,
+    });
+  }
+
+  start(): void {
+    for (const shard of this.shards) {
+      this.post(shard, { type: 'start' });
+    }
+  }
+
+  hasInstance(instanceId: string): boolean {
+    return this.routes.has(instanceId);
+  }
+
+  getInstanceType(instanceId: string): InstanceType | undefined {
+    return this.instanceTypes.get(instanceId);
+  }
+
+  countInstances(type: InstanceType): number {
+    let count = 0;
+    for (const instanceType of this.instanceTypes.values()) {
+      if (instanceType === type) count++;
+    }
+    return count;
+  }
+
+  createInstance(spec: InstanceSpec): void {
+    const shard = this.place(instanceIdFor(spec));
+    this.post(shard, { type: 'createInstance', spec });
+  }
+
+  // Put a player into an instance, creating it from `create` on the least
+  // loaded shard if no shard has it yet
+  addPlayer(
+    player: PlayerState,
+    instanceId: string,
+    create?: InstanceSpec,
+    vaultItems?: (string | null)[]
+  ): boolean {
+    const shard = this.routes.get(instanceId) ?? (create ? this.place(instanceId) : undefined);
+    if (!shard) return false;
+
+    shard.players++;
+    this.post(shard, { type: 'addPlayer', player, instanceId, create, vaultItems });
+    return true;
+  }
+
+  // Route a command to the shard owning the instance
+  send(instanceId: string, command: ShardCommand): boolean {
+    const shard = this.routes.get(instanceId);
+    if (!shard) return false;
+    this.post(shard, command);
+    return true;
+  }
+
+  // Resolves with the number of players saved, once every shard has sent
+  // its saveCharacter events. Shards that haven't answered within the
+  // timeout are logged and left out of the count.
+  saveAll(timeoutMs: number): Promise<number> {
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve) => {
+      const waiting = new Set(this.shards.map((shard) => shard.index));
+      const timer = setTimeout(() => {
+        const pending = this.pendingSaves.get(requestId)!;
+        this.pendingSaves.delete(requestId);
+        logger.error('Shards did not answer the save in time', { shards: [...waiting], timeoutMs });
+        resolve(pending.count);
+      }, timeoutMs);
+      this.pendingSaves.set(requestId, { waiting, count: 0, resolve, timer });
+      for (const shard of this.shards) {
+        this.post(shard, { type: 'saveAll', requestId });
+      }
+    });
+  }
+
+  // Recent tick timings from every shard that answers within the timeout,
+  // in shard order
+  profile(timeoutMs: number): Promise<ShardProfile[]> {
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve) => {
+      const waiting = new Set(this.shards.map((shard) => shard.index));
+      const profiles: ShardProfile[] = [];
+      const timer = setTimeout(() => {
+        this.pendingProfiles.delete(requestId);
+        logger.warn('Shards did not answer the profile request in time', { shards: [...waiting], timeoutMs });
+        resolve(profiles.sort((a, b) => a.shard - b.shard));
+      }, timeoutMs);
+      this.pendingProfiles.set(requestId, { waiting, profiles, resolve, timer });
+      for (const shard of this.shards) {
+        this.post(shard, { type: 'profile', requestId });
+      }
+    });
+  }
+
+  // Each shard's loop state, by shard index. A shard that hasn't answered
+  // within the timeout, such as a worker stuck in a tick, is null.
+  health(timeoutMs: number): Promise<(ShardHealth | null)[]> {
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve) => {
+      const health: (ShardHealth | null)[] = this.shards.map(() => null);
+      const timer = setTimeout(() => {
+        this.pendingHealth.delete(requestId);
+        resolve(health);
+      }, timeoutMs);
+      this.pendingHealth.set(requestId, { remaining: this.shards.length, health, resolve, timer });
+      for (const shard of this.shards) {
+        this.post(shard, { type: 'health', requestId });
+      }
+    });
+  }
+
+  async stop(): Promise<void> {
+    await Promise.all(this.shards.map((shard) => shard.channel.close()));
+  }
+
+  // Players count as load; instances break ties, so the nexus and realm
+  // start out on different shards
+  private place(instanceId: string): Shard {
+    let best = this.shards[0];
+    for (const shard of this.shards) {
+      if (
+        shard.players < best.players ||
+        (shard.players === best.players && shard.instances < best.instances)
+      ) {
+        best = shard;
+      }
+    }
+    best.instances++;
+    this.routes.set(instanceId, best);
+    return best;
+  }
+
+  private post(shard: Shard, command: ShardCommand): void {
+    if (shard.outbox.length === 0) {
+      queueMicrotask(() => {
+        const commands = shard.outbox;
+        shard.outbox = [];
+        shard.channel.post(commands);
+      });
+    }
+    shard.outbox.push(command);
+  }
+
+  private receive(shard: Shard, events: ShardEvent[]): void {
+    for (const event of events) {
+      switch (event.type) {
+        case 'instanceCreated':
+          // Normally placed already; a shard can also recreate a vault it
+          // had just removed
+          if (this.routes.get(event.instanceId) !== shard) {
+            this.routes.set(event.instanceId, shard);
+            shard.instances++;
+          }
+          this.instanceTypes.set(event.instanceId, event.instanceType);
+          break;
+
+        case 'instanceRemoved':
+          if (this.routes.get(event.instanceId) === shard) {
+            this.routes.delete(event.instanceId);
+            this.instanceTypes.delete(event.instanceId);
+            shard.instances--;
+          }
+          break;
+
+        case 'handoff':
+        case 'handoffRejected':
+        case 'playerDied':
+        case 'playerReleased':
+          shard.players--;
+          break;
+
+        case 'saved': {
+          // A reply after the timeout has nobody waiting for it
+          const pending = this.pendingSaves.get(event.requestId);
+          if (!pending) continue;
+          pending.count += event.count;
+          pending.waiting.delete(shard.index);
+          if (pending.waiting.size === 0) {
+            clearTimeout(pending.timer);
+            this.pendingSaves.delete(event.requestId);
+            pending.resolve(pending.count);
+          }
+          continue;
+        }
+
+        case 'profile': {
+          const pending = this.pendingProfiles.get(event.requestId);
+          if (!pending) continue;
+          pending.profiles.push({ ...event.profile, shard: shard.index });
+          pending.waiting.delete(shard.index);
+          if (pending.waiting.size === 0) {
+            clearTimeout(pending.timer);
+            this.pendingProfiles.delete(event.requestId);
+            pending.resolve(pending.profiles.sort((a, b) => a.shard - b.shard));
+          }
+          continue;
+        }
+
+        case 'health': {
+          const pending = this.pendingHealth.get(event.requestId);
+          if (!pending) continue;
+          pending.health[shard.index] = { ...event.health, shard: shard.index };
+          if (--pending.remaining === 0) {
+            clearTimeout(pending.timer);
+            this.pendingHealth.delete(event.requestId);
+            pending.resolve(pending.health);
+          }
+          continue;
+        }
+      }
+      this.onEvent(event);
+    }
+  }
+}
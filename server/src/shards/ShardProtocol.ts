@@ -0,0 +1,142 @@
+import { Character, ClientMessage, ProtocolFeature, ServerMessage } from '@rotmg/shared';
+import { PlayerState } from '../game/PlayerEntity.js';
+import { PositionAnomaly } from '../game/PositionIntegrity.js';
+import { InstanceProfile } from '../game/TickProfiler.js';
+import { HistogramSnapshot } from '../metrics/Metrics.js';
+import { InstanceType } from '../instances/Instance.js';
+import { ViolationKind } from '../network/AntiCheat.js';
+import { PortalPositions } from '../config/Config.js';
+import { LoggerOptions } from '../logging/Logger.js';
+import { ItemEvent, ItemTransaction } from '../persistence/PersistenceStore.js';
+
+/**
+ * Messages between the GameServer and its world shards. A shard may live on
+ * a worker thread, so everything here must survive structured cloning: plain
+ * data only, no entities or sockets. Both directions are sent in batches.
+ */
+
+export const NEXUS_INSTANCE_ID = 'nexus-main';
+export const REALM_INSTANCE_ID = 'realm-main';
+
+// Settings a shard needs from the server config. Worker threads don't share
+// the main thread's modules, so the tick rate and logging are applied again
+// on each one.
+export interface ShardOptions {
+  maxRewindMs: number; // upper bound on lag compensation for player shots
+  tickRate: number;
+  portals: PortalPositions;
+  logging: LoggerOptions;
+}
+
+// A shard's game loop and the recent timings of each of its instances
+export interface ShardProfile {
+  shard: number; // filled in by the ShardPool
+  tick: number;
+  skippedTicks: number;
+  overruns: number; // ticks over budget since the shard started
+  tickDurations: HistogramSnapshot; // seconds, since the shard started
+  instances: InstanceProfile[];
+}
+
+// Whether a shard's game loop is still running
+export interface ShardHealth {
+  shard: number; // filled in by the ShardPool
+  tick: number;
+  msSinceLastTick: number | null; // null before the first tick
+}
+
+// What a shard should build when asked for a new instance. Generated maps
+// take a seed so they can be rebuilt; a random one is picked if not given.
+export type InstanceSpec =
+  | { type: 'nexus' }
+  | { type: 'realm'; seed?: number }
+  | { type: 'vault'; accountId: string }
+  | { type: 'dungeon'; id: string; dungeonType: string; sourceInstanceId: string; seed?: number };
+
+export function instanceIdFor(spec: InstanceSpec): string {
+  switch (spec.type) {
+    case 'nexus':
+      return NEXUS_INSTANCE_ID;
+    case 'realm':
+      return REALM_INSTANCE_ID;
+    case 'vault':
+      return `vault-${spec.accountId}`;
+    case 'dungeon':
+      return spec.id;
+  }
+}
+
+// Client messages handled by the shard that owns the player's instance
+export type PlayerMessage = Extract<
+  ClientMessage,
+  {
+    type:
+      | 'input'
+      | 'shoot'
+      | 'useAbility'
+      | 'pickupLoot'
+      | 'enterPortal'
+      | 'dropItem'
+      | 'swapItems'
+      | 'interactVaultChest'
+      | 'vaultTransfer'
+      | 'closeVault'
+      | 'snapshotAck';
+  }
+>;
+
+// GameServer -> shard
+export type ShardCommand =
+  | { type: 'start' }
+  | { type: 'createInstance'; spec: InstanceSpec }
+  // Put a player into an instance; `create` builds the instance first if
+  // this shard doesn't have it yet. Vault items come along for vaults.
+  | {
+      type: 'addPlayer';
+      player: PlayerState;
+      instanceId: string;
+      create?: InstanceSpec;
+      vaultItems?: (string | null)[];
+    }
+  // Take a player out of its instance and hand it back for another one
+  | { type: 'handoffPlayer'; playerId: string; instanceId: string }
+  | { type: 'playerMessage'; playerId: string; message: PlayerMessage }
+  | { type: 'adminCommand'; playerId: string; admin: string; command: string; args: string[] }
+  | { type: 'detachPlayer'; playerId: string }
+  | { type: 'reattachPlayer'; playerId: string; features: ProtocolFeature[] }
+  | { type: 'releasePlayer'; playerId: string }
+  | { type: 'saveAll'; requestId: number }
+  | { type: 'profile'; requestId: number }
+  | { type: 'health'; requestId: number };
+
+// Shard -> GameServer
+export type ShardEvent =
+  // An encoded ServerMessage for the player's connection
+  | { type: 'send'; playerId: string; messageType: ServerMessage['type']; data: Uint8Array }
+  | { type: 'instanceCreated'; instanceId: string; instanceType: InstanceType }
+  | { type: 'instanceRemoved'; instanceId: string }
+  // The player entered a portal; the GameServer decides whether to hand off
+  | { type: 'transferRequest'; playerId: string; instanceId: string }
+  | { type: 'handoff'; player: PlayerState; instanceId: string }
+  // addPlayer named an instance this shard doesn't have
+  | { type: 'handoffRejected'; player: PlayerState; instanceId: string }
+  // The character as it died, items and all, and the ledger entries for them
+  | { type: 'playerDied'; playerId: string; character: Character; events: ItemEvent[] }
+  | { type: 'playerReleased'; playerId: string; character: Character }
+  // Answers reattachPlayer. It fails if the player was released or died, or
+  // its instance closed, in the meantime.
+  | { type: 'reattached'; playerId: string }
+  | { type: 'reattachFailed'; playerId: string }
+  | { type: 'saveCharacter'; character: Character }
+  | { type: 'saveVault'; accountId: string; items: (string | null)[] }
+  // Items moved between characters and vaults; saved all together or not at all
+  | { type: 'saveItems'; transaction: ItemTransaction }
+  // Items that appeared, changed hands or disappeared in the world
+  | { type: 'itemEvents'; events: ItemEvent[] }
+  | { type: 'violation'; playerId: string; kind: ViolationKind; detail: string }
+  | { type: 'positionAnomaly'; instanceId: string; anomaly: PositionAnomaly }
+  // A portal to this dungeon now exists; the GameServer places the dungeon
+  | { type: 'spawnDungeon'; spec: Extract<InstanceSpec, { type: 'dungeon' }> }
+  | { type: 'saved'; requestId: number; count: number }
+  | { type: 'profile'; requestId: number; profile: ShardProfile }
+  | { type: 'health'; requestId: number; health: ShardHealth };
@@ -0,0 +1,1024 @@
+import { v4 as uuid } from 'uuid';
+import { encode } from '@msgpack/msgpack';
+import {
+  ServerMessage,
+  PlayerInput,
+  WEAPONS,
+  CLASSES,
+  ARMORS,
+  ABILITIES,
+  ITEMS,
+  Vec2,
+  DUNGEONS,
+  ENEMIES,
+  VAULT_SIZE,
+  VAULT_CHEST_INTERACT_RANGE,
+  MAX_INPUT_DURATION,
+  ProtocolFeature,
+} from '@rotmg/shared';
+import { GameLoop, TICK_RATE } from '../game/GameLoop.js';
+import { Instance } from '../instances/Instance.js';
+import { GameMap } from '../game/GameMap.js';
+import { Random, randomSeed, parseSeed } from '../game/Random.js';
+import { PlayerEntity } from '../game/PlayerEntity.js';
+import { PortalEntity } from '../game/PortalEntity.js';
+import { VaultChestEntity } from '../game/VaultChestEntity.js';
+import { PositionAnomaly } from '../game/PositionIntegrity.js';
+import { ViolationKind } from '../network/AntiCheat.js';
+import { LogFields, logger } from '../logging/Logger.js';
+import { PortalPositions } from '../config/Config.js';
+import { ItemAction, ItemEvent } from '../persistence/PersistenceStore.js';
+import {
+  ShardCommand,
+  ShardEvent,
+  ShardOptions,
+  ShardProfile,
+  InstanceSpec,
+  PlayerMessage,
+  NEXUS_INSTANCE_ID,
+  REALM_INSTANCE_ID,
+  instanceIdFor,
+} from './ShardProtocol.js';
+
+// Ability uses this close to the end of the cooldown are rejected without
+// counting as a violation, on top of the player's round trip time, to absorb
+// network jitter (seconds)
+const ABILITY_COOLDOWN_GRACE = 0.15;
+
+// A player's copy of their vault while they are in it
+interface VaultSession {
+  open: boolean;
+  items: (string | null)[];
+}
+
+// Collects events emitted in one turn of the event loop and delivers them as
+// a single batch once the turn is over
+export function batchEvents(deliver: (events: ShardEvent[]) => void): (event: ShardEvent) => void {
+  let pending: ShardEvent[] = [];
+  return (event) => {
+    if (pending.length === 0) {
+      queueMicrotask(() => {
+        const events = pending;
+        pending = [];
+        deliver(events);
+      });
+    }
+    pending.push(event);
+  };
+}
+
+// The same context fields the GameServer attaches to session logs, for lines
+// about a player that are written on the shard
+function playerFields(player: PlayerEntity, instance: Instance): LogFields {
+  return {
+    playerId: player.id,
+    accountId: player.accountId,
+    characterId: player.characterId,
+    instanceId: instance.id,
+  };
+}
+
+/**
+ * A share of the game world: a set of instances driven by their own game
+ * loop. A shard runs on a worker thread, or in-process when workers are off,
+ * and only talks to the GameServer through ShardCommand and ShardEvent. It
+ * never sees sockets, sessions or the database; players arrive and leave as
+ * PlayerState.
+ */
+export class WorldShard {
+  private gameLoop: GameLoop;
+  private maxRewindMs: number;
+  private portals: PortalPositions;
+  private emit: (event: ShardEvent) => void;
+  private players: Map<string, PlayerEntity> = new Map();
+  private vaults: Map<string, VaultSession> = new Map(); // keyed by playerId
+
+  constructor(options: ShardOptions, emit: (event: ShardEvent) => void) {
+    this.gameLoop = new GameLoop();
+    this.maxRewindMs = options.maxRewindMs;
+    this.portals = options.portals;
+    this.emit = emit;
+  }
+
+  handle(command: ShardCommand): void {
+    switch (command.type) {
+      case 'start':
+        this.gameLoop.start();
+        break;
+
+      case 'createInstance':
+        this.createInstance(command.spec);
+        break;
+
+      case 'addPlayer':
+        this.addPlayer(command);
+        break;
+
+      case 'handoffPlayer':
+        this.handoffPlayer(command.playerId, command.instanceId);
+        break;
+
+      case 'playerMessage':
+        this.handlePlayerMessage(command.playerId, command.message);
+        break;
+
+      case 'adminCommand':
+        this.handleAdminCommand(command.playerId, command.admin, command.command, command.args);
+        break;
+
+      case 'detachPlayer':
+        this.detachPlayer(command.playerId);
+        break;
+
+      case 'reattachPlayer':
+        this.reattachPlayer(command.playerId, command.features);
+        break;
+
+      case 'releasePlayer':
+        this.releasePlayer(command.playerId);
+        break;
+
+      case 'saveAll':
+        this.saveAll(command.requestId);
+        break;
+
+      case 'profile':
+        this.emit({ type: 'profile', requestId: command.requestId, profile: this.profile() });
+        break;
+
+      case 'health':
+        this.emit({
+          type: 'health',
+          requestId: command.requestId,
+          health: { shard: 0, tick: this.gameLoop.getTick(), msSinceLastTick: this.gameLoop.getMsSinceLastTick() },
+        });
+        break;
+    }
+  }
+
+  stop(): void {
+    this.gameLoop.stop();
+  }
+
+  private createInstance(spec: InstanceSpec): Instance {
+    const id = instanceIdFor(spec);
+    const seed = 'seed' in spec && spec.seed !== undefined ? spec.seed : randomSeed();
+    let instance: Instance;
+
+    switch (spec.type) {
+      case 'nexus': {
+        instance = new Instance('nexus', GameMap.createNexusMap(), id, seed);
+
+        // Nexus portal to Realm
+        instance.addPortal(new PortalEntity(this.portals.nexusToRealm, REALM_INSTANCE_ID, 'realm', 'Realm Portal'));
+
+        // Vault portal in Nexus (special - creates personal instances)
+        instance.addPortal(
+          new PortalEntity(
+            this.portals.nexusToVault,
+            'vault', // Special marker - actual instance created on entry
+            'vault',
+            'Vault'
+          )
+        );
+        break;
+      }
+
+      case 'realm': {
+        instance = new Instance('realm', GameMap.createRealmMap(Random.derive(seed, 'map')), id, seed);
+
+        // Realm portal back to Nexus
+        instance.addPortal(new PortalEntity(this.portals.realmToNexus, NEXUS_INSTANCE_ID, 'nexus', 'Nexus Portal'));
+        break;
+      }
+
+      case 'vault': {
+        const vaultMapResult = GameMap.createVaultMap();
+        instance = new Instance('vault', vaultMapResult.map, id, seed);
+
+        // Add vault chest
+        instance.addVaultChest(new VaultChestEntity(vaultMapResult.chestPosition, 'vault-chest'));
+
+        // Add return portal to nexus
+        instance.addPortal(new PortalEntity(this.portals.vaultToNexus, NEXUS_INSTANCE_ID, 'nexus', 'Nexus Portal'));
+
+        logger.info('Created vault instance', { instanceId: id, accountId: spec.accountId });
+        break;
+      }
+
+      case 'dungeon': {
+        const dungeonResult = GameMap.createDungeonMap(Random.derive(seed, 'map'), spec.dungeonType);
+        instance = new Instance('dungeon', dungeonResult.map, id, seed);
+
+        // Store boss room center for return portal spawning
+        instance.setBossRoomCenter(dungeonResult.bossRoomCenter);
+        instance.setSourceInstanceId(spec.sourceInstanceId);
+
+        // Spawn all enemies at once (dungeons don't respawn)
+        instance.spawnInitialEnemies();
+        break;
+      }
+    }
+
+    // Vaults are fixed and per account; the rest are worth being able to rebuild
+    if (spec.type !== 'vault') {
+      logger.info(`Created ${spec.type} instance`, { instanceId: id, seed });
+    }
+
+    instance.setShard(this);
+    this.gameLoop.addInstance(instance);
+    this.emit({ type: 'instanceCreated', instanceId: instance.id, instanceType: instance.type });
+    return instance;
+  }
+
+  private removeInstance(instance: Instance): void {
+    this.gameLoop.removeInstance(instance.id);
+    this.emit({ type: 'instanceRemoved', instanceId: instance.id });
+  }
+
+  private addPlayer(command: Extract<ShardCommand, { type: 'addPlayer' }>): void {
+    let instance = this.gameLoop.getInstance(command.instanceId);
+    if (!instance && command.create) {
+      instance = this.createInstance(command.create);
+    }
+    if (!instance) {
+      this.emit({ type: 'handoffRejected', player: command.player, instanceId: command.instanceId });
+      return;
+    }
+
+    const player = PlayerEntity.fromState(command.player);
+    this.players.set(player.id, player);
+    if (command.vaultItems) {
+      this.vaults.set(player.id, { open: false, items: command.vaultItems });
+    }
+
+    instance.addPlayer(player);
+    this.sendInstanceChange(instance, player);
+  }
+
+  private handoffPlayer(playerId: string, instanceId: string): void {
+    const player = this.players.get(playerId);
+    const instance = player?.instance;
+    if (!player || !instance || player.isDead()) return;
+
+    instance.removePlayer(playerId);
+    this.forgetPlayer(player);
+    this.emit({ type: 'handoff', player: player.toState(), instanceId });
+  }
+
+  private detachPlayer(playerId: string): void {
+    const player = this.players.get(playerId);
+    if (!player) return;
+
+    player.detached = true;
+    player.clearQueuedInputs();
+    this.closeVault(player);
+  }
+
+  private reattachPlayer(playerId: string, features: ProtocolFeature[]): void {
+    const player = this.players.get(playerId);
+    const instance = player?.instance;
+    if (!player || !instance) {
+      this.emit({ type: 'reattachFailed', playerId });
+      return;
+    }
+
+    player.detached = false;
+    player.protocolFeatures = new Set(features);
+    // The new connection has no snapshot baseline yet
+    player.snapshotHistory.reset();
+
+    this.emit({ type: 'reattached', playerId });
+    this.sendInstanceChange(instance, player);
+  }
+
+  // Take a player out of the world for good; the GameServer saves it
+  private releasePlayer(playerId: string): void {
+    const player = this.players.get(playerId);
+    const instance = player?.instance;
+    if (!player || !instance) return;
+
+    instance.removePlayer(playerId);
+    this.forgetPlayer(player);
+    this.emit({ type: 'playerReleased', playerId, character: player.toCharacterData() });
+
+    // Clean up vault instance if empty
+    if (instance.type === 'vault' && instance.getPlayerCount() === 0) {
+      this.removeInstance(instance);
+      logger.info('Cleaned up vault instance', { instanceId: instance.id, accountId: player.accountId });
+    }
+  }
+
+  // Drop shard-side state for a player leaving this shard, saving an open vault
+  private forgetPlayer(player: PlayerEntity): void {
+    this.closeVault(player);
+    this.vaults.delete(player.id);
+    this.players.delete(player.id);
+  }
+
+  private saveAll(requestId: number): void {
+    for (const player of this.players.values()) {
+      this.emit({ type: 'saveCharacter', character: player.toCharacterData() });
+    }
+    this.emit({ type: 'saved', requestId, count: this.players.size });
+  }
+
+  private profile(): ShardProfile {
+    return {
+      shard: 0,
+      tick: this.gameLoop.getTick(),
+      skippedTicks: this.gameLoop.getSkippedTicks(),
+      overruns: this.gameLoop.getOverruns(),
+      tickDurations: this.gameLoop.getTickDurations(),
+      instances: this.gameLoop
+        .getAllInstances()
+        .map((instance) => instance.profiler.snapshot(instance.id, instance.type, TICK_RATE)),
+    };
+  }
+
+  private handlePlayerMessage(playerId: string, message: PlayerMessage): void {
+    const player = this.players.get(playerId);
+    const instance = player?.instance;
+    if (!player || !instance) return;
+
+    switch (message.type) {
+      case 'input':
+        this.handleInput(player, message.data);
+        break;
+
+      case 'shoot':
+        this.handleShoot(player, instance, message.data.aimAngle, true);
+        break;
+
+      case 'useAbility':
+        this.handleUseAbility(player, instance);
+        break;
+
+      case 'pickupLoot':
+        instance.tryPickupLoot(player, message.data.lootId);
+        break;
+
+      case 'enterPortal':
+        this.handleEnterPortal(player, instance, message.data.portalId);
+        break;
+
+      case 'dropItem':
+        this.handleDropItem(player, instance, message.data.slot);
+        break;
+
+      case 'swapItems':
+        this.handleSwapItems(player, message.data.from, message.data.to);
+        break;
+
+      case 'interactVaultChest':
+        this.handleInteractVaultChest(player, instance);
+        break;
+
+      case 'vaultTransfer':
+        this.handleVaultTransfer(
+          player,
+          instance,
+          message.data.fromVault,
+          message.data.fromSlot,
+          message.data.toSlot
+        );
+        break;
+
+      case 'closeVault':
+        this.closeVault(player);
+        break;
+
+      case 'snapshotAck':
+        player.snapshotHistory.acknowledge(message.data.tick);
+        break;
+    }
+  }
+
+  private reportViolation(player: PlayerEntity, kind: ViolationKind, detail: string): void {
+    this.emit({ type: 'violation', playerId: player.id, kind, detail });
+  }
+
+  private handleInput(player: PlayerEntity, input: PlayerInput): void {
+    // Validate input
+    const moveDir = input.moveDirection;
+    const len = Math.sqrt(moveDir.x * moveDir.x + moveDir.y * moveDir.y);
+    if (len > 1.1) {
+      // Allow small margin for floating point
+      moveDir.x /= len;
+      moveDir.y /= len;
+      this.reportViolation(player, 'moveDirection', `length ${len.toFixed(2)}`);
+    }
+    if (input.duration > MAX_INPUT_DURATION + 1e-3) {
+      this.reportViolation(player, 'inputDuration', `${input.duration.toFixed(3)}s`);
+    }
+
+    const accepted = player.processInput({
+      seq: input.seq,
+      duration: input.duration,
+      moveDirection: moveDir,
+      aimAngle: input.aimAngle,
+      shooting: input.shooting,
+    });
+    if (!accepted) {
+      this.reportViolation(player, 'movementOverrun', `input ${input.seq} ran ahead of real time`);
+    }
+
+    // Holding fire is sent with every input, so the weapon fires whenever it's ready
+    if (input.shooting && player.instance) {
+      this.handleShoot(player, player.instance, input.aimAngle, false);
+    }
+  }
+
+  // Both the input's shooting flag and explicit shoot messages end up here, so
+  // they share one fire-rate budget. Only explicit shots can be early: a client
+  // sending them paces them itself.
+  private handleShoot(player: PlayerEntity, instance: Instance, aimAngle: number, explicit: boolean): void {
+    const weapon = player.getWeapon();
+    if (!weapon) return;
+
+    if (!player.canShoot()) {
+      if (explicit) {
+        this.reportViolation(player, 'fireRate', `${weapon.id} at ${player.getFireRate().toFixed(1)}/s`);
+      }
+      return;
+    }
+
+    player.consumeShot();
+    player.shotsFired++;
+
+    // Calculate damage
+    const baseDamage = weapon.damage[0] + instance.random.combat.next() * (weapon.damage[1] - weapon.damage[0]);
+    const damage = player.calculateDamage(baseDamage);
+
+    // Spawn projectiles
+    // Rewind hit detection to what the shooter saw, within the configured limit
+    const rewindMs = Math.min(player.getViewDelay(), this.maxRewindMs);
+
+    const arcGapRad = (weapon.arcGap * Math.PI) / 180;
+    const startAngle = aimAngle - (arcGapRad * (weapon.numProjectiles - 1)) / 2;
+
+    for (let i = 0; i < weapon.numProjectiles; i++) {
+      const angle = startAngle + arcGapRad * i;
+      instance.spawnProjectile(
+        player.id,
+        'player',
+        weapon.projectileId,
+        { ...player.position },
+        angle,
+        weapon.projectileSpeed,
+        Math.floor(damage),
+        weapon.piercing,
+        weapon.range / weapon.projectileSpeed,
+        rewindMs
+      );
+    }
+  }
+
+  private handleUseAbility(player: PlayerEntity, instance: Instance): void {
+    // Get ability from equipment slot 1
+    const abilityId = player.equipment[1];
+    if (!abilityId) return;
+
+    const ability = ABILITIES[abilityId];
+    if (!ability) return;
+
+    // Check cooldown. The client waits out the cooldown itself on its own
+    // clock, so only uses clearly ahead of it by the wall clock count as a
+    // violation. A delayed earlier use makes this one look early by up to
+    // about a round trip.
+    if (player.getAbilityCooldown() > 0) {
+      const early = player.getAbilityCooldownWallTime();
+      const grace = ABILITY_COOLDOWN_GRACE + player.snapshotHistory.getRoundTripTime() / 1000;
+      if (early > grace) {
+        this.reportViolation(player, 'abilityCooldown', `${abilityId} with ${early.toFixed(2)}s left`);
+      }
+      return;
+    }
+
+    // Check MP
+    if (player.mp < ability.mpCost) return;
+
+    // Consume MP and set cooldown
+    player.mp -= ability.mpCost;
+    player.startAbilityCooldown(ability.cooldown);
+    player.abilitiesUsed++;
+
+    // Execute ability effect
+    instance.executeAbility(player, ability);
+  }
+
+  private handleEnterPortal(player: PlayerEntity, instance: Instance, portalId: string): void {
+    const portal = instance.tryEnterPortal(player, portalId);
+    if (!portal) return;
+
+    // The vault portal leads to the player's own vault
+    const instanceId =
+      portal.targetType === 'vault'
+        ? instanceIdFor({ type: 'vault', accountId: player.accountId })
+        : portal.targetInstance;
+
+    // The target may live on another shard, so the GameServer moves the player
+    this.emit({ type: 'transferRequest', playerId: player.id, instanceId });
+  }
+
+  private handleDropItem(player: PlayerEntity, instance: Instance, slot: number): void {
+    // Get item from slot (0-3 = equipment, 4-11 = inventory)
+    let itemId: string | null = null;
+    if (slot >= 0 && slot < 4) {
+      itemId = player.equipment[slot];
+      if (itemId) player.equipment[slot] = null;
+    } else if (slot >= 4 && slot < 12) {
+      const invIndex = slot - 4;
+      itemId = player.inventory[invIndex];
+      if (itemId) player.inventory[invIndex] = null;
+    }
+
+    if (!itemId) return;
+
+    // Cap HP/MP if armor or ring was dropped
+    if (slot === 2 || slot === 3) {
+      const effectiveMaxHp = player.getEffectiveMaxHp();
+      const effectiveMaxMp = player.getEffectiveMaxMp();
+      if (player.hp > effectiveMaxHp) {
+        player.hp = effectiveMaxHp;
+      }
+      if (player.mp > effectiveMaxMp) {
+        player.mp = effectiveMaxMp;
+      }
+    }
+
+    // Try to drop into existing nearby loot bag, or create new one
+    instance.dropItem(player, itemId);
+    this.recordItem('drop', itemId, instance, player);
+  }
+
+  private handleSwapItems(player: PlayerEntity, fromSlot: number, toSlot: number): void {
+    // Prevent swapping same slot with itself (potential duplication exploit)
+    if (fromSlot === toSlot) return;
+
+    // Slot mapping: 0-3 = equipment, 4-11 = inventory
+    const getSlot = (slot: number): { array: (string | null)[]; index: number } | null => {
+      if (slot >= 0 && slot < 4) {
+        return { array: player.equipment, index: slot };
+      } else if (slot >= 4 && slot < 12) {
+        return { array: player.inventory, index: slot - 4 };
+      }
+      return null;
+    };
+
+    const from = getSlot(fromSlot);
+    const to = getSlot(toSlot);
+
+    if (!from || !to) return;
+
+    const cls = CLASSES[player.classId];
+    if (!cls) return;
+
+    const slotTypes = ['weapon', 'ability', 'armor', 'ring'];
+
+    // Helper to validate if an item can go into a specific equipment slot
+    const isValidForEquipmentSlot = (itemId: string | null, equipSlot: number): boolean => {
+      if (itemId === null) return true; // null is always valid (clearing slot)
+
+      const item = ITEMS[itemId];
+      if (!item) return false; // Unknown items are not valid
+
+      // Check slot type compatibility
+      if (item.type !== slotTypes[equipSlot]) return false;
+
+      // Check class compatibility for weapons/abilities/armor
+      if (equipSlot === 0) {
+        // Weapon slot - check weapon type
+        const weapon = WEAPONS[itemId];
+        if (weapon && weapon.type !== cls.weaponType) return false;
+      } else if (equipSlot === 1) {
+        // Ability slot - check ability type
+        const ability = ABILITIES[itemId];
+        if (ability && ability.type !== cls.abilityType) return false;
+      } else if (equipSlot === 2) {
+        // Armor slot - check armor type
+        const armor = ARMORS[itemId];
+        if (armor && armor.type !== cls.armorType) return false;
+      }
+      // Ring slot (3) has no class restriction
+
+      return true;
+    };
+
+    // Validate item going into toSlot (if toSlot is equipment slot)
+    if (toSlot < 4) {
+      if (!isValidForEquipmentSlot(from.array[from.index], toSlot)) {
+        return;
+      }
+    }
+
+    // Validate item going into fromSlot (if fromSlot is equipment slot) - this is the swap direction
+    if (fromSlot < 4) {
+      if (!isValidForEquipmentSlot(to.array[to.index], fromSlot)) {
+        return;
+      }
+    }
+
+    // Perform the swap
+    const temp = from.array[from.index];
+    from.array[from.index] = to.array[to.index];
+    to.array[to.index] = temp;
+
+    // Cap HP/MP to new effective max if armor or ring slot was involved
+    if (fromSlot === 2 || fromSlot === 3 || toSlot === 2 || toSlot === 3) {
+      const effectiveMaxHp = player.getEffectiveMaxHp();
+      const effectiveMaxMp = player.getEffectiveMaxMp();
+      if (player.hp > effectiveMaxHp) {
+        player.hp = effectiveMaxHp;
+      }
+      if (player.mp > effectiveMaxMp) {
+        player.mp = effectiveMaxMp;
+      }
+    }
+  }
+
+  private handleInteractVaultChest(player: PlayerEntity, instance: Instance): void {
+    // Security: Only allow vault interaction in vault instance
+    if (instance.type !== 'vault') {
+      logger.warn('Vault interaction outside a vault instance', playerFields(player, instance));
+      return;
+    }
+
+    // Security: Verify this is the player's own vault
+    if (instance.id !== instanceIdFor({ type: 'vault', accountId: player.accountId })) {
+      logger.warn("Attempt to open another account's vault", playerFields(player, instance));
+      return;
+    }
+
+    const vault = this.vaults.get(player.id);
+    if (!vault) return;
+
+    // Check distance to vault chest
+    const vaultChest = instance.getFirstVaultChest();
+    if (!vaultChest) return;
+
+    const dist = player.distanceTo(vaultChest);
+    if (dist > VAULT_CHEST_INTERACT_RANGE) return;
+
+    // Initialize vault if empty (ensure VAULT_SIZE slots)
+    if (vault.items.length < VAULT_SIZE) {
+      vault.items = Array(VAULT_SIZE).fill(null);
+      this.emit({ type: 'saveVault', accountId: player.accountId, items: [...vault.items] });
+    }
+
+    vault.open = true;
+
+    // Send vault contents to client
+    this.sendToPlayer(player.id, {
+      type: 'vaultOpen',
+      data: { vaultItems: vault.items },
+    });
+  }
+
+  private handleVaultTransfer(
+    player: PlayerEntity,
+    instance: Instance,
+    fromVault: boolean,
+    fromSlot: number,
+    toSlot: number
+  ): void {
+    const vault = this.vaults.get(player.id);
+    if (!vault?.open) return;
+
+    // Security: Only allow in vault instance
+    if (instance.type !== 'vault') return;
+
+    // Security: Verify own vault
+    if (instance.id !== instanceIdFor({ type: 'vault', accountId: player.accountId })) return;
+
+    // Validate slot ranges
+    // Vault slots: 0-7 (VAULT_SIZE)
+    // Inventory slots: 0-7 (8 slots)
+    if (fromVault) {
+      if (fromSlot < 0 || fromSlot >= VAULT_SIZE) return;
+      if (toSlot < 0 || toSlot >= 8) return;
+    } else {
+      if (fromSlot < 0 || fromSlot >= 8) return;
+      if (toSlot < 0 || toSlot >= VAULT_SIZE) return;
+    }
+
+    // Perform atomic transfer
+    let vaultItem: string | null;
+    let invItem: string | null;
+    if (fromVault) {
+      // Vault -> Inventory
+      vaultItem = vault.items[fromSlot];
+      invItem = player.inventory[toSlot];
+
+      // Swap items (both can be null)
+      vault.items[fromSlot] = invItem;
+      player.inventory[toSlot] = vaultItem;
+    } else {
+      // Inventory -> Vault
+      invItem = player.inventory[fromSlot];
+      vaultItem = vault.items[toSlot];
+
+      // Swap items (both can be null)
+      player.inventory[fromSlot] = vaultItem;
+      vault.items[toSlot] = invItem;
+    }
+
+    const events: ItemEvent[] = [];
+    if (vaultItem) events.push(this.itemEvent('fromVault', vaultItem, instance, player));
+    if (invItem) events.push(this.itemEvent('toVault', invItem, instance, player));
+
+    // Save both sides at once, so a crash can't leave the item in both or
+    // neither
+    this.emit({
+      type: 'saveItems',
+      transaction: {
+        characters: [player.toCharacterData()],
+        vaults: [{ accountId: player.accountId, items: [...vault.items] }],
+        events,
+      },
+    });
+
+    // Send updated vault contents to client
+    this.sendToPlayer(player.id, {
+      type: 'vaultUpdate',
+      data: { vaultItems: vault.items },
+    });
+  }
+
+  private closeVault(player: PlayerEntity): void {
+    const vault = this.vaults.get(player.id);
+    if (!vault?.open) return;
+
+    // The items stay with the session as the saved state, in case the chest
+    // is opened again
+    if (vault.items.length > 0) {
+      this.emit({ type: 'saveVault', accountId: player.accountId, items: [...vault.items] });
+    }
+    vault.open = false;
+  }
+
+  // Admin commands that act on the player or its instance; the GameServer has
+  // already checked that the sender is an admin
+  private handleAdminCommand(playerId: string, admin: string, command: string, args: string[]): void {
+    const player = this.players.get(playerId);
+    const instance = player?.instance;
+    if (!player || !instance) return;
+
+    switch (command) {
+      case 'give': {
+        // /give <item_id>
+        const itemId = args[1];
+        if (!itemId) {
+          this.sendChatToPlayer(player, 'System', 'Usage: /give <item_id>');
+          return;
+        }
+        if (!ITEMS[itemId]) {
+          this.sendChatToPlayer(player, 'System', `Unknown item: ${itemId}`);
+          return;
+        }
+        if (player.addToInventory(itemId)) {
+          this.recordItem('give', itemId, instance, player, admin);
+          this.sendChatToPlayer(player, 'System', `Given: ${ITEMS[itemId].name}`);
+        } else {
+          this.sendChatToPlayer(player, 'System', 'Inventory full!');
+        }
+        return;
+      }
+
+      case 'heal': {
+        // /heal - Restore HP/MP to max
+        player.hp = player.getEffectiveMaxHp();
+        player.mp = player.getEffectiveMaxMp();
+        this.sendChatToPlayer(player, 'System', 'Fully healed!');
+        return;
+      }
+
+      case 'level': {
+        // /level <level> - Set player level
+        const level = parseInt(args[1]) || 20;
+        while (player.level < level && player.level < 20) {
+          player.addExp(99999);
+        }
+        this.sendChatToPlayer(player, 'System', `Level set to ${player.level}`);
+        return;
+      }
+
+      case 'spawn': {
+        // /spawn <enemy_id> - Spawn an enemy at player position
+        const enemyId = args[1];
+        if (!enemyId || !ENEMIES[enemyId]) {
+          this.sendChatToPlayer(player, 'System', `Usage: /spawn <enemy_id>. Available: ${Object.keys(ENEMIES).slice(0, 10).join(', ')}...`);
+          return;
+        }
+        instance.spawnEnemy(enemyId, { ...player.position });
+        this.sendChatToPlayer(player, 'System', `Spawned ${ENEMIES[enemyId].name}`);
+        return;
+      }
+
+      case 'tp': {
+        // /tp <x> <y> - Teleport to coordinates
+        const x = parseFloat(args[1]);
+        const y = parseFloat(args[2]);
+        if (isNaN(x) || isNaN(y)) {
+          this.sendChatToPlayer(player, 'System', 'Usage: /tp <x> <y>');
+          return;
+        }
+        player.teleport({ x, y }, 'admin');
+        logger.info('Admin teleported', { admin, ...playerFields(player, instance), x, y });
+        this.sendChatToPlayer(player, 'System', `Teleported to (${x}, ${y})`);
+        return;
+      }
+
+      case 'dungeon': {
+        // /dungeon <dungeon_id> [seed] - Open a dungeon portal, optionally
+        // rebuilding a dungeon from its seed
+        const dungeonType = args[1];
+        if (!dungeonType || !DUNGEONS[dungeonType]) {
+          this.sendChatToPlayer(player, 'System', `Usage: /dungeon <dungeon_id> [seed]. Available: ${Object.keys(DUNGEONS).join(', ')}`);
+          return;
+        }
+        let seed: number | undefined;
+        if (args[2] !== undefined) {
+          const parsed = parseSeed(args[2]);
+          if (parsed === null) {
+            this.sendChatToPlayer(player, 'System', 'Seed must be a whole number from 0 to 4294967295');
+            return;
+          }
+          seed = parsed;
+        }
+        // Return portals only lead back to the Nexus or the Realm
+        if (instance.type !== 'nexus' && instance.type !== 'realm') {
+          this.sendChatToPlayer(player, 'System', 'Dungeon portals can only be opened in the Nexus or the Realm');
+          return;
+        }
+        this.spawnDungeonPortal(instance, { ...player.position }, dungeonType, seed);
+        logger.info('Admin opened a dungeon', { admin, ...playerFields(player, instance), dungeonType, seed });
+        this.sendChatToPlayer(player, 'System', `Opened ${DUNGEONS[dungeonType].name}`);
+        return;
+      }
+
+      case 'seed': {
+        // /seed - Show the seed of the current instance
+        this.sendChatToPlayer(player, 'System', `${instance.id} seed: ${instance.seed}`);
+        return;
+      }
+    }
+  }
+
+  private sendChatToPlayer(player: PlayerEntity, sender: string, message: string): void {
+    this.sendToPlayer(player.id, {
+      type: 'chat',
+      data: { sender, message, timestamp: Date.now() },
+    });
+  }
+
+  // Send instance change with map data. Clients that support it get the map
+  // streamed as encoded chunks afterwards instead of inline.
+  private sendInstanceChange(instance: Instance, player: PlayerEntity): void {
+    const streamed = player.protocolFeatures.has('compressedMaps');
+    this.sendToPlayer(player.id, {
+      type: 'instanceChange',
+      data: {
+        instanceId: instance.id,
+        instanceType: instance.type,
+        spawnPosition: player.position,
+        playerId: player.id,
+        mapWidth: instance.map.width,
+        mapHeight: instance.map.height,
+        mapTiles: streamed ? null : [...instance.map.tiles],
+      },
+    });
+
+    if (streamed) {
+      instance.streamMapTo(player);
+    }
+    if (player.protocolFeatures.has('projectileEvents')) {
+      instance.sendProjectilesTo(player);
+    }
+  }
+
+  // Messages are encoded here, off the main thread. The copy is sized
+  // exactly so it can be transferred rather than cloned.
+  sendToPlayer(playerId: string, message: ServerMessage): void {
+    const data = encode(message).slice();
+    this.players.get(playerId)?.instance?.profiler.countBytes(data.byteLength);
+    this.emit({ type: 'send', playerId, messageType: message.type, data });
+  }
+
+  handlePlayerDeath(player: PlayerEntity, instance: Instance, killerName: string): void {
+    // The instance removes the entity itself; the GameServer marks the
+    // character dead
+    this.forgetPlayer(player);
+    const events = [...player.equipment, ...player.inventory]
+      .filter((itemId): itemId is string => itemId !== null)
+      .map((itemId) => this.itemEvent('death', itemId, instance, player, killerName));
+    this.emit({ type: 'playerDied', playerId: player.id, character: player.toCharacterData(), events });
+  }
+
+  // Records an item appearing, changing hands or disappearing in the ledger.
+  // `holder` is the player it went to or came from, if any.
+  recordItem(
+    action: ItemAction,
+    itemId: string,
+    instance: Instance,
+    holder: PlayerEntity | null,
+    source: string | null = null
+  ): void {
+    this.emit({ type: 'itemEvents', events: [this.itemEvent(action, itemId, instance, holder, source)] });
+  }
+
+  private itemEvent(
+    action: ItemAction,
+    itemId: string,
+    instance: Instance,
+    holder: PlayerEntity | null,
+    source: string | null = null
+  ): ItemEvent {
+    return {
+      time: Date.now(),
+      itemId,
+      action,
+      source,
+      accountId: holder?.accountId ?? null,
+      characterId: holder?.characterId ?? null,
+      instanceId: instance.id,
+    };
+  }
+
+  // Called by instances when a player moved further than walking and
+  // sanctioned teleports allow
+  reportPositionAnomaly(instance: Instance, anomaly: PositionAnomaly): void {
+    this.emit({ type: 'positionAnomaly', instanceId: instance.id, anomaly });
+  }
+
+  // Spawn a portal to a new dungeon at the given position. The dungeon itself
+  // is placed by the GameServer, possibly on another shard.
+  spawnDungeonPortal(sourceInstance: Instance, position: Vec2, dungeonType: string = 'demon_lair', seed?: number): void {
+    const dungeonDef = DUNGEONS[dungeonType] || DUNGEONS['demon_lair'];
+
+    const dungeonId = `dungeon-${uuid()}`;
+    this.emit({
+      type: 'spawnDungeon',
+      spec: { type: 'dungeon', id: dungeonId, dungeonType, sourceInstanceId: sourceInstance.id, seed },
+    });
+
+    // Create portal to dungeon in realm (expires in 2 minutes)
+    const dungeonPortal = new PortalEntity(
+      position,
+      dungeonId,
+      'dungeon',
+      dungeonDef.portalName,
+      120 // 2 minutes lifetime
+    );
+    sourceInstance.addPortal(dungeonPortal);
+
+    logger.info(`Spawned ${dungeonDef.name} portal`, {
+      instanceId: sourceInstance.id,
+      dungeonId,
+      x: Math.round(position.x * 10) / 10,
+      y: Math.round(position.y * 10) / 10,
+    });
+  }
+
+  // Called when dungeon boss is killed - spawn return portal
+  onDungeonBossKilled(dungeonInstance: Instance, bossPosition: Vec2): void {
+    // Credit all players in the dungeon with a dungeon clear
+    for (const player of dungeonInstance.getAllPlayers()) {
+      player.dungeonsClearedCount++;
+    }
+
+    // Get source instance (realm)
+    const sourceInstanceId = dungeonInstance.getSourceInstanceId();
+    if (!sourceInstanceId) {
+      // Fallback: spawn portal to nexus
+      const returnPortal = new PortalEntity(
+        bossPosition,
+        NEXUS_INSTANCE_ID,
+        'nexus',
+        'Return Portal'
+      );
+      dungeonInstance.addPortal(returnPortal);
+      return;
+    }
+
+    // Spawn permanent return portal to realm at boss room
+    const returnPortal = new PortalEntity(
+      bossPosition,
+      sourceInstanceId,
+      sourceInstanceId === NEXUS_INSTANCE_ID ? 'nexus' : 'realm',
+      'Return Portal'
+    );
+    dungeonInstance.addPortal(returnPortal);
+
+    logger.info('Boss killed, spawned return portal', { instanceId: dungeonInstance.id });
+  }
+
+  // Clean up empty dungeon instances
+  cleanupDungeon(dungeonId: string): void {
+    const instance = this.gameLoop.getInstance(dungeonId);
+    if (instance && instance.type === 'dungeon' && instance.getPlayerCount() === 0) {
+      this.removeInstance(instance);
+      logger.info('Cleaned up empty dungeon', { instanceId: dungeonId });
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { parentPort, workerData } from 'worker_threads';
+import { WorldShard, batchEvents } from './WorldShard.js';
+import { ShardCommand, ShardOptions } from './ShardProtocol.js';
+import { setTickRate } from '../game/GameLoop.js';
+import { logger } from '../logging/Logger.js';
+
+// Entry point for a shard on a worker thread, started by ShardPool
+
+const port = parentPort!;
+const options = workerData as ShardOptions;
+
+setTickRate(options.tickRate);
+logger.configure(options.logging);
+
+const shard = new WorldShard(
+  options,
+  batchEvents((events) => {
+    // Encoded messages are moved to the main thread instead of copied
+    const transfer: ArrayBuffer[] = [];
+    for (const event of events) {
+      if (event.type === 'send') {
+        transfer.push(event.data.buffer as ArrayBuffer);
+      }
+    }
+    port.postMessage(events, transfer);
+  })
+);
+
+port.on('message', (commands: ShardCommand[]) => {
+  for (const command of commands) {
+    shard.handle(command);
+  }
+});
@@ -1,2 +1,6 @@
 export * from './types.js';
 export * from './definitions.js';
+export * from './movement.js';
+export * from './protocol.js';
+export * from './mapEncoding.js';
+export * from './snapshotEncoding.js';
@@ -0,0 +1,71 @@
+// Compact map transfer. Maps are cut into square chunks whose tiles are
+// run-length encoded, so the server can stream the area around a player first.
+
+import { MapChunk } from './types.js';
+
+// Chunk edge length in tiles
+export const MAP_CHUNK_SIZE = 32;
+
+// Run-length encode tiles as flat [tile, count, tile, count, ...] pairs
+export function encodeTileRuns(tiles: ArrayLike<number>): number[] {
+  const runs: number[] = [];
+  let i = 0;
+  while (i < tiles.length) {
+    const tile = tiles[i];
+    let count = 1;
+    while (i + count < tiles.length && tiles[i + count] === tile) {
+      count++;
+    }
+    runs.push(tile, count);
+    i += count;
+  }
+  return runs;
+}
+
+export function decodeTileRuns(runs: ArrayLike<number>): number[] {
+  const tiles: number[] = [];
+  for (let i = 0; i + 1 < runs.length; i += 2) {
+    for (let n = 0; n < runs[i + 1]; n++) {
+      tiles.push(runs[i]);
+    }
+  }
+  return tiles;
+}
+
+// Split a map into encoded chunks (edge chunks are clipped to the map)
+export function createMapChunks(
+  instanceId: string,
+  width: number,
+  height: number,
+  tiles: ArrayLike<number>
+): MapChunk[] {
+  const chunks: MapChunk[] = [];
+  for (let y = 0; y < height; y += MAP_CHUNK_SIZE) {
+    for (let x = 0; x < width; x += MAP_CHUNK_SIZE) {
+      const chunkWidth = Math.min(MAP_CHUNK_SIZE, width - x);
+      const chunkHeight = Math.min(MAP_CHUNK_SIZE, height - y);
+
+      const chunkTiles: number[] = [];
+      for (let row = 0; row < chunkHeight; row++) {
+        const start = (y + row) * width + x;
+        for (let col = 0; col < chunkWidth; col++) {
+          chunkTiles.push(tiles[start + col]);
+        }
+      }
+
+      chunks.push({ instanceId, x, y, width: chunkWidth, height: chunkHeight, runs: encodeTileRuns(chunkTiles) });
+    }
+  }
+  return chunks;
+}
+
+// Copy a chunk's tiles into a full map tile array
+export function applyMapChunk(tiles: number[], mapWidth: number, chunk: MapChunk): void {
+  const chunkTiles = decodeTileRuns(chunk.runs);
+  for (let row = 0; row < chunk.height; row++) {
+    const start = (chunk.y + row) * mapWidth + chunk.x;
+    for (let col = 0; col < chunk.width; col++) {
+      tiles[start + col] = chunkTiles[row * chunk.width + col];
+    }
+  }
+}
@@ -0,0 +1,90 @@
+// Movement and map collision rules shared by the server simulation and
+// client-side prediction. Both sides must step movement identically for
+// reconciliation to converge.
+
+import { TileType, Vec2 } from './types.js';
+
+// Longest stretch of movement a single input may cover (seconds)
+export const MAX_INPUT_DURATION = 0.25;
+
+// The client sends the movement gathered so far this often, whatever the
+// server's tick rate, and early on a change of direction (ms)
+export const INPUT_INTERVAL_MS = 50;
+
+// Movement is integrated in sub-steps no longer than this so fast movers
+// cannot skip over thin walls
+const MAX_STEP_DURATION = 0.05;
+
+export interface TileGrid {
+  width: number;
+  height: number;
+  tiles: ArrayLike<number>;
+}
+
+export function isWalkableTile(tile: number): boolean {
+  return tile === TileType.FLOOR || tile === TileType.SPAWN || tile === TileType.BOSS_FLOOR;
+}
+
+export function isWalkableAt(grid: TileGrid, x: number, y: number): boolean {
+  const tx = Math.floor(x);
+  const ty = Math.floor(y);
+  // Out of bounds counts as wall
+  if (tx < 0 || tx >= grid.width || ty < 0 || ty >= grid.height) {
+    return false;
+  }
+  return isWalkableTile(grid.tiles[ty * grid.width + tx]);
+}
+
+export function canMoveTo(grid: TileGrid, x: number, y: number, radius: number): boolean {
+  // Check corners and center for collision
+  return (
+    isWalkableAt(grid, x, y) &&
+    isWalkableAt(grid, x - radius, y - radius) &&
+    isWalkableAt(grid, x + radius, y - radius) &&
+    isWalkableAt(grid, x - radius, y + radius) &&
+    isWalkableAt(grid, x + radius, y + radius)
+  );
+}
+
+// Move along a direction for a duration, sliding along walls when blocked.
+// Returns the new position; the input position is not modified.
+export function stepMovement(
+  grid: TileGrid,
+  position: Vec2,
+  moveDirection: Vec2,
+  speed: number,
+  duration: number,
+  radius: number
+): Vec2 {
+  const len = Math.sqrt(moveDirection.x * moveDirection.x + moveDirection.y * moveDirection.y);
+  if (len === 0 || duration <= 0) return { ...position };
+
+  const dirX = moveDirection.x / len;
+  const dirY = moveDirection.y / len;
+  const steps = Math.ceil(duration / MAX_STEP_DURATION);
+  const stepDistance = (speed * duration) / steps;
+
+  let current: Vec2 = { ...position };
+  for (let i = 0; i < steps; i++) {
+    current = slide(grid, current, dirX * stepDistance, dirY * stepDistance, radius);
+  }
+  return current;
+}
+
+function slide(grid: TileGrid, position: Vec2, dx: number, dy: number, radius: number): Vec2 {
+  const newX = position.x + dx;
+  const newY = position.y + dy;
+
+  if (canMoveTo(grid, newX, newY, radius)) {
+    return { x: newX, y: newY };
+  }
+
+  // Try sliding along walls
+  if (canMoveTo(grid, newX, position.y, radius)) {
+    return { x: newX, y: position.y };
+  }
+  if (canMoveTo(grid, position.x, newY, radius)) {
+    return { x: position.x, y: newY };
+  }
+  return position;
+}
@@ -0,0 +1,22 @@
+import { ProtocolFeature } from './types.js';
+
+// Bump whenever ClientMessage or ServerMessage change in a way older peers
+// can't handle. Server and client are deployed separately, so each side
+// checks the other's version during the hello handshake.
+export const PROTOCOL_VERSION = 1;
+
+// Oldest protocol version still accepted from the other side
+export const MIN_PROTOCOL_VERSION = 1;
+
+// Features this build can speak. Anything the other side lacks is disabled
+// for the connection instead of failing it.
+export const PROTOCOL_FEATURES: readonly ProtocolFeature[] = [
+  'deltaSnapshots',
+  'compressedMaps',
+  'packedSnapshots',
+  'projectileEvents',
+];
+
+export function negotiateFeatures(requested: readonly string[]): ProtocolFeature[] {
+  return PROTOCOL_FEATURES.filter((feature) => requested.includes(feature));
+}
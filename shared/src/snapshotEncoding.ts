@@ -0,0 +1,263 @@
+// Compact binary encoding for the highest volume snapshot lists, enemies and
+// projectiles. Entities are referenced by small numeric handles instead of
+// UUIDs, positions and velocities are fixed-point and each list is packed into
+// a single byte array. Both sides must agree on the layout, so any change here
+// needs a PROTOCOL_VERSION bump.
+
+import { EnemySnapshot, EntityChange, EntityDelta, ProjectileSnapshot, Vec2 } from './types.js';
+
+// Fixed-point steps per tile. Int16 storage covers maps up to 511 tiles across.
+export const POSITION_SCALE = 64;
+// Fixed-point steps per tile/second
+export const VELOCITY_SCALE = 256;
+
+// Id a decoded entity gets on the client; stable for as long as the handle
+export function handleToId(handle: number): string {
+  return `#${handle}`;
+}
+
+class ByteWriter {
+  private bytes: Uint8Array = new Uint8Array(256);
+  private view: DataView = new DataView(this.bytes.buffer);
+  private length: number = 0;
+
+  u8(value: number): void {
+    this.reserve(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+  }
+
+  u16(value: number): void {
+    this.reserve(2);
+    this.view.setUint16(this.length, value, true);
+    this.length += 2;
+  }
+
+  u32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.length, value, true);
+    this.length += 4;
+  }
+
+  i16(value: number): void {
+    this.reserve(2);
+    this.view.setInt16(this.length, Math.max(-32768, Math.min(32767, value)), true);
+    this.length += 2;
+  }
+
+  finish(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.bytes.length) return;
+    const grown = new Uint8Array(Math.max(this.bytes.length * 2, this.length + size));
+    grown.set(this.bytes);
+    this.bytes = grown;
+    this.view = new DataView(grown.buffer);
+  }
+}
+
+class ByteReader {
+  private view: DataView;
+  private offset: number = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  u8(): number {
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  u16(): number {
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  i16(): number {
+    const value = this.view.getInt16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+}
+
+// Definition ids are sent once per message and referenced by index
+export class StringTable {
+  readonly strings: string[] = [];
+  private indices: Map<string, number> = new Map();
+
+  indexOf(value: string): number {
+    let index = this.indices.get(value);
+    if (index === undefined) {
+      index = this.strings.length;
+      this.strings.push(value);
+      this.indices.set(value, index);
+    }
+    return index;
+  }
+}
+
+interface PackedField<T> {
+  key: keyof T;
+  write(writer: ByteWriter, value: unknown, strings: StringTable): void;
+  read(reader: ByteReader, strings: readonly string[]): unknown;
+}
+
+const stringField = <T>(key: keyof T): PackedField<T> => ({
+  key,
+  write: (writer, value, strings) => writer.u16(strings.indexOf(value as string)),
+  read: (reader, strings) => strings[reader.u16()] ?? '',
+});
+
+const vecField = <T>(key: keyof T, scale: number): PackedField<T> => ({
+  key,
+  write: (writer, value) => {
+    writer.i16(Math.round((value as Vec2).x * scale));
+    writer.i16(Math.round((value as Vec2).y * scale));
+  },
+  read: (reader) => ({ x: reader.i16() / scale, y: reader.i16() / scale }),
+});
+
+const uintField = <T>(key: keyof T): PackedField<T> => ({
+  key,
+  write: (writer, value) => writer.u32(Math.max(0, Math.round(value as number))),
+  read: (reader) => reader.u32(),
+});
+
+// Field order is the wire order and each field's index is its bit in the change mask
+const ENEMY_FIELDS: PackedField<EnemySnapshot>[] = [
+  stringField('definitionId'),
+  vecField('position', POSITION_SCALE),
+  uintField('hp'),
+  uintField('maxHp'),
+];
+
+const PROJECTILE_FIELDS: PackedField<ProjectileSnapshot>[] = [
+  stringField('definitionId'),
+  vecField('position', POSITION_SCALE),
+  vecField('velocity', VELOCITY_SCALE),
+  {
+    key: 'ownerType',
+    write: (writer, value) => writer.u8(value === 'enemy' ? 1 : 0),
+    read: (reader) => (reader.u8() === 1 ? 'enemy' : 'player'),
+  },
+];
+
+// Returns null if an entity has no handle
+export type HandleLookup = (id: string) => number | null;
+
+export function packEnemies(delta: EntityDelta<EnemySnapshot>, handleOf: HandleLookup, strings: StringTable): Uint8Array | null {
+  return packEntityDelta(delta, ENEMY_FIELDS, handleOf, strings);
+}
+
+export function packProjectiles(
+  delta: EntityDelta<ProjectileSnapshot>,
+  handleOf: HandleLookup,
+  strings: StringTable
+): Uint8Array | null {
+  return packEntityDelta(delta, PROJECTILE_FIELDS, handleOf, strings);
+}
+
+export function unpackEnemies(bytes: Uint8Array, strings: readonly string[]): EntityDelta<EnemySnapshot> {
+  return unpackEntityDelta(bytes, ENEMY_FIELDS, strings);
+}
+
+export function unpackProjectiles(bytes: Uint8Array, strings: readonly string[]): EntityDelta<ProjectileSnapshot> {
+  return unpackEntityDelta(bytes, PROJECTILE_FIELDS, strings);
+}
+
+// Layout: added count, added records, changed count, changed records, removed
+// count, removed handles. A record is handle (u32), field mask (u8), then the
+// fields set in the mask; added records always carry every field.
+function packEntityDelta<T extends { id: string }>(
+  delta: EntityDelta<T>,
+  fields: PackedField<T>[],
+  handleOf: HandleLookup,
+  strings: StringTable
+): Uint8Array | null {
+  const writer = new ByteWriter();
+
+  const writeRecord = (entity: Partial<T> & { id: string }): boolean => {
+    const handle = handleOf(entity.id);
+    if (handle === null) return false;
+
+    let mask = 0;
+    fields.forEach((field, bit) => {
+      if (entity[field.key] !== undefined) mask |= 1 << bit;
+    });
+    writer.u32(handle);
+    writer.u8(mask);
+    for (const field of fields) {
+      const value = entity[field.key];
+      if (value !== undefined) field.write(writer, value, strings);
+    }
+    return true;
+  };
+
+  writer.u16(delta.added.length);
+  for (const entity of delta.added) {
+    if (!writeRecord(entity)) return null;
+  }
+
+  writer.u16(delta.changed.length);
+  for (const change of delta.changed) {
+    if (!writeRecord(change)) return null;
+  }
+
+  writer.u16(delta.removed.length);
+  for (const id of delta.removed) {
+    const handle = handleOf(id);
+    if (handle === null) return null;
+    writer.u32(handle);
+  }
+
+  return writer.finish();
+}
+
+function unpackEntityDelta<T extends { id: string }>(
+  bytes: Uint8Array,
+  fields: PackedField<T>[],
+  strings: readonly string[]
+): EntityDelta<T> {
+  const reader = new ByteReader(bytes);
+
+  const readRecord = (): EntityChange<T> => {
+    const record = { id: handleToId(reader.u32()) } as EntityChange<T>;
+    const mask = reader.u8();
+    fields.forEach((field, bit) => {
+      if (mask & (1 << bit)) {
+        record[field.key] = field.read(reader, strings) as T[keyof T];
+      }
+    });
+    return record;
+  };
+
+  const delta: EntityDelta<T> = { added: [], changed: [], removed: [] };
+
+  const addedCount = reader.u16();
+  for (let i = 0; i < addedCount; i++) {
+    delta.added.push(readRecord() as T);
+  }
+
+  const changedCount = reader.u16();
+  for (let i = 0; i < changedCount; i++) {
+    delta.changed.push(readRecord());
+  }
+
+  const removedCount = reader.u16();
+  for (let i = 0; i < removedCount; i++) {
+    delta.removed.push(handleToId(reader.u32()));
+  }
+
+  return delta;
+}
@@ -50,14 +50,14 @@ export interface Projectile extends Entity {
   damage: number;
   piercing: boolean;
   lifetime: number;
-  spawnTime: number;
+  ageTicks: number;
   hitEntities: Set<string>;
 }
 
 export interface Loot extends Entity {
   type: 'loot';
   itemId: string;
-  despawnTime: number;
+  despawnTicks: number;
 }
 
 export interface Portal extends Entity {
@@ -73,6 +73,7 @@ export interface VaultChest extends Entity {
 
 // Network Messages
 export type ClientMessage =
+  | { type: 'hello'; data: HelloMessage }
   | { type: 'input'; data: PlayerInput }
   | { type: 'shoot'; data: ShootInput }
   | { type: 'useAbility' }
@@ -84,6 +85,7 @@ export type ClientMessage =
   | { type: 'returnToNexus' }
   | { type: 'auth'; data: { username: string; password: string } }
   | { type: 'authToken'; data: { token: string } }
+  | { type: 'resume'; data: { token: string } }
   | { type: 'logout'; data: { token: string } }
   | { type: 'register'; data: { username: string; password: string } }
   | { type: 'createCharacter'; data: { classId: string } }
@@ -91,25 +93,36 @@ export type ClientMessage =
   | { type: 'chat'; data: { message: string } }
   | { type: 'interactVaultChest' }
   | { type: 'vaultTransfer'; data: { fromVault: boolean; fromSlot: number; toSlot: number } }
-  | { type: 'closeVault' };
+  | { type: 'closeVault' }
+  | { type: 'snapshotAck'; data: { tick: number } };
 
 export type ServerMessage =
+  | { type: 'helloResult'; data: HelloResult }
   | { type: 'snapshot'; data: WorldSnapshot }
+  | { type: 'snapshotDelta'; data: WorldSnapshotDelta }
+  | { type: 'packedSnapshot'; data: PackedSnapshotDelta }
   | { type: 'damage'; data: DamageEvent }
   | { type: 'death'; data: DeathEvent }
   | { type: 'lootSpawn'; data: LootSpawnEvent }
   | { type: 'levelUp'; data: LevelUpEvent }
   | { type: 'abilityEffect'; data: AbilityEffectEvent }
+  | { type: 'projectileSpawn'; data: ProjectileSpawnEvent }
+  | { type: 'projectileRemove'; data: ProjectileRemoveEvent }
   | { type: 'authResult'; data: AuthResult }
+  | { type: 'resumeToken'; data: { token: string } }
+  | { type: 'resumeResult'; data: { success: boolean } }
   | { type: 'registerResult'; data: RegisterResult }
   | { type: 'characterList'; data: CharacterListData }
   | { type: 'instanceChange'; data: InstanceChangeEvent }
+  | { type: 'mapChunk'; data: MapChunk }
   | { type: 'chat'; data: ChatEvent }
   | { type: 'error'; data: { message: string } }
   | { type: 'vaultOpen'; data: VaultOpenEvent }
   | { type: 'vaultUpdate'; data: VaultUpdateEvent };
 
 export interface PlayerInput {
+  seq: number; // increases by one per input, echoed back as lastProcessedInput
+  duration: number; // seconds of movement this input covers
   moveDirection: Vec2; // normalized or zero
   aimAngle: number;
   shooting: boolean;
@@ -124,6 +137,7 @@ export interface WorldSnapshot {
   timestamp: number;
   instanceId: string;
   instanceType: 'nexus' | 'realm' | 'dungeon' | 'vault';
+  lastProcessedInput: number; // seq of the receiving player's last applied input
   players: PlayerSnapshot[];
   enemies: EnemySnapshot[];
   projectiles: ProjectileSnapshot[];
@@ -132,6 +146,40 @@ export interface WorldSnapshot {
   vaultChests: VaultChestSnapshot[];
 }
 
+// Delta-compressed snapshot: entities added, changed or removed relative to
+// the last snapshot the client acknowledged (baseTick). A null baseTick means
+// there is no baseline yet and every entity is listed under `added`.
+export interface WorldSnapshotDelta {
+  tick: number;
+  baseTick: number | null;
+  timestamp: number;
+  instanceId: string;
+  instanceType: 'nexus' | 'realm' | 'dungeon' | 'vault';
+  lastProcessedInput: number;
+  players: EntityDelta<PlayerSnapshot>;
+  enemies: EntityDelta<EnemySnapshot>;
+  projectiles: EntityDelta<ProjectileSnapshot>;
+  loots: EntityDelta<LootSnapshot>;
+  portals: EntityDelta<PortalSnapshot>;
+  vaultChests: EntityDelta<VaultChestSnapshot>;
+}
+
+// Snapshot delta with the enemy and projectile deltas in the binary form from
+// snapshotEncoding.ts. Packed entities are identified by per-instance handles.
+export interface PackedSnapshotDelta extends Omit<WorldSnapshotDelta, 'enemies' | 'projectiles'> {
+  definitions: string[]; // definition ids referenced by index from the packed records
+  enemies: Uint8Array;
+  projectiles: Uint8Array;
+}
+
+export interface EntityDelta<T extends { id: string }> {
+  added: T[];
+  changed: EntityChange<T>[]; // only the fields that differ from the baseline
+  removed: string[];
+}
+
+export type EntityChange<T extends { id: string }> = Partial<T> & { id: string };
+
 export interface PlayerSnapshot {
   id: string;
   name: string;
@@ -149,6 +197,7 @@ export interface PlayerSnapshot {
   dexterity: number;
   vitality: number;
   wisdom: number;
+  moveSpeed: number; // tiles per second including equipment and buffs
   equipment: (string | null)[];
   inventory: (string | null)[];
 }
@@ -236,6 +285,45 @@ export interface AbilityEffectEvent {
   duration?: number; // for buff abilities
 }
 
+// Projectiles fly in a straight line, so clients with the projectileEvents
+// feature simulate them from their spawn instead of receiving them in
+// snapshots. Ids are per-instance numeric handles.
+export interface ProjectileSpawn {
+  id: number;
+  definitionId: string;
+  ownerType: 'player' | 'enemy';
+  origin: Vec2;
+  angle: number; // radians
+  speed: number; // tiles per second
+  lifetime: number; // seconds remaining from origin
+}
+
+export interface ProjectileSpawnEvent {
+  projectiles: ProjectileSpawn[];
+}
+
+// Projectiles that ended early by hitting something. Expiry and wall hits
+// are simulated by the client and never announced.
+export interface ProjectileRemoveEvent {
+  ids: number[];
+}
+
+// Optional protocol capabilities, negotiated during the hello handshake
+export type ProtocolFeature = 'deltaSnapshots' | 'compressedMaps' | 'packedSnapshots' | 'projectileEvents';
+
+// First message a client sends after connecting
+export interface HelloMessage {
+  protocolVersion: number;
+  features: ProtocolFeature[];
+}
+
+export interface HelloResult {
+  accepted: boolean;
+  protocolVersion: number; // the server's version
+  features: ProtocolFeature[]; // features both sides support, enabled for this connection
+  reason?: 'clientOutdated';
+}
+
 export interface AuthResult {
   success: boolean;
   accountId?: string;
@@ -269,7 +357,18 @@ export interface InstanceChangeEvent {
   playerId: string;
   mapWidth: number;
   mapHeight: number;
-  mapTiles: number[];
+  // Full tile array, or null when the map follows as mapChunk messages
+  mapTiles: number[] | null;
+}
+
+// Run-length encoded rectangle of map tiles (see mapEncoding.ts)
+export interface MapChunk {
+  instanceId: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  runs: number[]; // [tile, count, tile, count, ...] in row-major order
 }
 
 export interface VaultOpenEvent {